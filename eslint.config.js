@@ -24,6 +24,10 @@ export default [
     },
     rules: {
       '@typescript-eslint/no-explicit-any': 'warn',
+      // The core rule reports parameter names in interface and function type
+      // signatures as unused; the TypeScript-aware rule below replaces it, as
+      // the .vue block already does
+      'no-unused-vars': 'off',
       '@typescript-eslint/no-unused-vars': [
         'error',
         {
@@ -0,0 +1 @@
+export { default as Checkbox } from './Checkbox.vue';
@@ -0,0 +1,78 @@
+import { computed, ref } from 'vue';
+import { authService, setCurrentActor } from '@/service';
+import { hasPermission } from '@/models/auth';
+import type { AuthUser, Permission } from '@/models/auth';
+
+const currentUser = ref<AuthUser | null>(null);
+const initialized = ref(false);
+const signingIn = ref(false);
+const error = ref<string | null>(null);
+
+let listening = false;
+
+const setUser = (user: AuthUser | null) => {
+  currentUser.value = user;
+  initialized.value = true;
+  // Every write made from now on is recorded as this account's
+  setCurrentActor(user && { id: user.uid, name: user.displayName || user.email });
+};
+
+/**
+ * Signed-in account and its permissions
+ *
+ * The auth state listener is started by the first caller and kept for the
+ * lifetime of the app, since every screen depends on it.
+ */
+export const useAuth = () => {
+  if (!listening) {
+    listening = true;
+    authService.onAuthStateChanged(setUser);
+  }
+
+  const signIn = async (email: string, password: string): Promise<boolean> => {
+    try {
+      signingIn.value = true;
+      error.value = null;
+      setUser(await authService.signIn(email, password));
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unexpected error occurred';
+      error.value = errorMessage;
+      console.error('Signing in failed:', errorMessage);
+      return false;
+    } finally {
+      signingIn.value = false;
+    }
+  };
+
+  const signOut = async (): Promise<boolean> => {
+    try {
+      error.value = null;
+      await authService.signOut();
+      setUser(null);
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unexpected error occurred';
+      error.value = errorMessage;
+      console.error('Signing out failed:', errorMessage);
+      return false;
+    }
+  };
+
+  const can = (permission: Permission): boolean => {
+    return hasPermission(currentUser.value?.role, permission);
+  };
+
+  return {
+    user: computed(() => currentUser.value),
+    role: computed(() => currentUser.value?.role ?? null),
+    isAuthenticated: computed(() => !!currentUser.value),
+    initialized: computed(() => initialized.value),
+    signingIn: computed(() => signingIn.value),
+    error: computed(() => error.value),
+
+    signIn,
+    signOut,
+    can,
+  };
+};
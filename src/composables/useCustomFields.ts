@@ -0,0 +1,143 @@
+import { computed, getCurrentScope, onScopeDispose, ref, shallowRef } from 'vue';
+import { customFieldService, toUserServiceError } from '@/service';
+import type { Unsubscribe, UserServiceError } from '@/service';
+import type {
+  CustomFieldDefinition,
+  CustomFieldInput,
+  CustomFieldUpdate,
+} from '@/models/customField';
+
+export type CustomFieldOperation = 'fetch' | 'create' | 'update' | 'delete' | 'reorder';
+
+const fields = ref<CustomFieldDefinition[]>([]);
+const loading = ref(false);
+const errors = shallowRef<Partial<Record<CustomFieldOperation, UserServiceError>>>({});
+
+let subscribers = 0;
+let stopSubscription: Unsubscribe | null = null;
+
+const setOperationError = (operation: CustomFieldOperation, err: unknown): UserServiceError => {
+  const serviceError = toUserServiceError(err);
+  errors.value = { ...errors.value, [operation]: serviceError };
+  return serviceError;
+};
+
+const clearOperationError = (operation: CustomFieldOperation) => {
+  if (!errors.value[operation]) return;
+
+  const { [operation]: _cleared, ...rest } = errors.value;
+  errors.value = rest;
+};
+
+const retainSubscription = () => {
+  subscribers++;
+  if (subscribers !== 1) return;
+
+  loading.value = true;
+  clearOperationError('fetch');
+  stopSubscription = customFieldService.subscribeToFields(
+    (changed) => {
+      fields.value = changed;
+      loading.value = false;
+    },
+    (err) => {
+      setOperationError('fetch', err);
+      loading.value = false;
+    }
+  );
+};
+
+const releaseSubscription = () => {
+  subscribers = Math.max(0, subscribers - 1);
+  if (subscribers === 0 && stopSubscription) {
+    stopSubscription();
+    stopSubscription = null;
+  }
+};
+
+/**
+ * Definitions of the admin-defined user fields
+ *
+ * Every caller shares one live subscription, detached once the last of them
+ * is unmounted, so forms, lists and exports pick up changes immediately.
+ */
+export const useCustomFields = () => {
+  retainSubscription();
+  if (getCurrentScope()) {
+    onScopeDispose(releaseSubscription);
+  }
+
+  /**
+   * Runs a write, recording its failure under `operation`; the subscription
+   * delivers the resulting definitions
+   */
+  const withErrorHandling = async <T>(
+    operation: CustomFieldOperation,
+    write: () => Promise<T>
+  ): Promise<T | null> => {
+    try {
+      clearOperationError(operation);
+      return await write();
+    } catch (err) {
+      const serviceError = setOperationError(operation, err);
+      console.error(`Custom field operation ${operation} failed:`, serviceError);
+      return null;
+    }
+  };
+
+  const createField = (input: CustomFieldInput) => {
+    return withErrorHandling('create', () => customFieldService.createField(input));
+  };
+
+  const updateField = (key: string, input: CustomFieldUpdate) => {
+    return withErrorHandling('update', () => customFieldService.updateField(key, input));
+  };
+
+  const deleteField = async (key: string): Promise<boolean> => {
+    const result = await withErrorHandling('delete', async () => {
+      await customFieldService.deleteField(key);
+      return true;
+    });
+    return result ?? false;
+  };
+
+  /**
+   * Moves a field up or down by `offset` positions
+   */
+  const moveField = async (key: string, offset: number): Promise<boolean> => {
+    const keys = fields.value.map((field) => field.key);
+    const from = keys.indexOf(key);
+    const to = from + offset;
+    if (from === -1 || to < 0 || to >= keys.length) return false;
+
+    keys.splice(to, 0, ...keys.splice(from, 1));
+
+    // Show the new order right away; the subscription confirms it
+    const previous = fields.value;
+    fields.value = keys.map((fieldKey, order) => ({
+      ...previous.find((field) => field.key === fieldKey)!,
+      order,
+    }));
+
+    const result = await withErrorHandling('reorder', async () => {
+      await customFieldService.reorderFields(keys);
+      return true;
+    });
+    if (!result) {
+      fields.value = previous;
+    }
+    return result ?? false;
+  };
+
+  return {
+    fields: computed(() => fields.value),
+    loading: computed(() => loading.value),
+    errors: computed(() => errors.value),
+
+    createField,
+    updateField,
+    deleteField,
+    moveField,
+    clearError: clearOperationError,
+  };
+};
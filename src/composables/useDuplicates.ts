@@ -0,0 +1,106 @@
+import { computed, ref } from 'vue';
+import { userService } from '@/service';
+import { findDuplicateGroups, planMerge } from '@/lib/duplicates';
+import type { DuplicateGroup, MergeSelection } from '@/lib/duplicates';
+import type { User } from '@/models/user';
+import { useUsers } from './useUsers';
+
+export interface MergeResult {
+  survivor: User;
+  /** Duplicates that could not be moved to the trash */
+  failed: { id: string; message: string }[];
+}
+
+/**
+ * Likely duplicate users and merging them
+ *
+ * Scans every active user rather than the loaded pages, so it loads them on
+ * demand. State is local to each caller.
+ */
+export const useDuplicates = () => {
+  const { updateUser, bulkDeleteUsers } = useUsers();
+
+  const groups = ref<DuplicateGroup[]>([]);
+  const loading = ref(false);
+  const merging = ref(false);
+  const error = ref<string | null>(null);
+
+  const findDuplicates = async (): Promise<boolean> => {
+    try {
+      loading.value = true;
+      error.value = null;
+      groups.value = findDuplicateGroups(await userService.getUsers());
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unexpected error occurred';
+      error.value = errorMessage;
+      console.error('Finding duplicate users failed:', errorMessage);
+      return false;
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  /**
+   * Updates the surviving user with the selected values and moves the
+   * others to the trash, where they can still be restored from
+   */
+  const mergeUsers = async (
+    users: User[],
+    selection: MergeSelection
+  ): Promise<MergeResult | null> => {
+    const { survivor, input, duplicates } = planMerge(users, selection);
+    if (!survivor.id) return null;
+
+    try {
+      merging.value = true;
+      error.value = null;
+
+      // A picture taken over from a duplicate must not be deleted with it later on
+      const donorIds = duplicates
+        .filter(
+          (user) => user.id && user.profilePicture && user.profilePicture === input.profilePicture
+        )
+        .map((user) => user.id!);
+      if (donorIds.length > 0) {
+        await userService.bulkUpdateUsers(donorIds, { profilePicture: '' });
+      }
+
+      const updatedSurvivor = await updateUser({ id: survivor.id, ...input });
+      if (!updatedSurvivor) {
+        throw new Error('Failed to update the surviving user');
+      }
+
+      const deleteResult = await bulkDeleteUsers(
+        duplicates.flatMap((user) => (user.id ? [user.id] : []))
+      );
+      if (!deleteResult) {
+        throw new Error('Failed to move the duplicates to the trash');
+      }
+
+      const mergedIds = new Set(users.map((user) => user.id));
+      groups.value = groups.value.filter(
+        (group) => !group.users.some((user) => mergedIds.has(user.id))
+      );
+
+      return { survivor: updatedSurvivor, failed: deleteResult.failed };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unexpected error occurred';
+      error.value = errorMessage;
+      console.error('Merging users failed:', errorMessage);
+      return null;
+    } finally {
+      merging.value = false;
+    }
+  };
+
+  return {
+    groups: computed(() => groups.value),
+    loading: computed(() => loading.value),
+    merging: computed(() => merging.value),
+    error: computed(() => error.value),
+
+    findDuplicates,
+    mergeUsers,
+  };
+};
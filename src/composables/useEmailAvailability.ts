@@ -0,0 +1,64 @@
+import { computed, ref } from 'vue';
+import { userService } from '@/service';
+import { normalizeEmail } from '@/models/user';
+
+export const EMAIL_CHECK_DELAY = 300;
+
+/**
+ * Debounced check whether an email is still free, for validation while typing
+ *
+ * Only the last check within the delay hits the backend; superseded checks
+ * resolve as available since their result is discarded anyway. A failing
+ * check also passes, as the write itself still enforces uniqueness.
+ *
+ * The last answer is reused while the email stays the same, since form-level
+ * validation re-runs the check whenever any other field changes.
+ */
+export const useEmailAvailability = (delay = EMAIL_CHECK_DELAY) => {
+  const checking = ref(false);
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let resolvePending: ((available: boolean) => void) | null = null;
+  let lastAnswer: { key: string; available: boolean } | null = null;
+
+  const isEmailAvailable = (email: string, excludeUserId?: string): Promise<boolean> => {
+    clearTimeout(timer);
+    resolvePending?.(true);
+    resolvePending = null;
+
+    const key = `${normalizeEmail(email)}:${excludeUserId ?? ''}`;
+    if (lastAnswer?.key === key) {
+      return Promise.resolve(lastAnswer.available);
+    }
+
+    return new Promise((resolve) => {
+      resolvePending = resolve;
+      timer = setTimeout(async () => {
+        resolvePending = null;
+        try {
+          checking.value = true;
+          const available = await userService.isEmailAvailable(email, excludeUserId);
+          lastAnswer = { key, available };
+          resolve(available);
+        } catch (err) {
+          console.warn('Checking email availability failed:', err);
+          resolve(true);
+        } finally {
+          checking.value = false;
+        }
+      }, delay);
+    });
+  };
+
+  /** Forgets the last answer, e.g. after a write was rejected as a duplicate */
+  const invalidate = () => {
+    lastAnswer = null;
+  };
+
+  return {
+    checking: computed(() => checking.value),
+
+    isEmailAvailable,
+    invalidate,
+  };
+};
@@ -1,14 +1,23 @@
 import { computed, type Ref } from 'vue';
 import type { User } from '@/models/user';
+import type { AgeRangeFilter, DateRangeFilter } from '@/lib/dateRange';
+import type { CustomFieldFilters } from '@/lib/customFieldFilter';
+import { filterUsers } from '@/lib/userFilter';
+import type { CustomFieldDefinition } from '@/models/customField';
 
 export function useFilteredUsers(
   users: Ref<User[]>,
   filterCriteria: {
+    searchQuery: Ref<string>;
     genderFilter: Ref<User['gender'] | 'all'>;
     profilePictureFilter: Ref<'with' | 'without' | 'all'>;
-    dateOfBirthFilter: Ref<string>;
-    createdAtFilter: Ref<string>;
-    updatedAtFilter: Ref<string>;
+    dateOfBirthFilter: Ref<DateRangeFilter>;
+    createdAtFilter: Ref<DateRangeFilter>;
+    updatedAtFilter: Ref<DateRangeFilter>;
+    ageRangeFilter: Ref<AgeRangeFilter>;
+    customFieldFilters: Ref<CustomFieldFilters>;
+    /** Definitions the custom field filters apply to; filters on other keys are ignored */
+    customFields: Ref<CustomFieldDefinition[]>;
   },
   sortCriteria: {
     sortBy: Ref<keyof User>;
@@ -16,49 +25,20 @@ export function useFilteredUsers(
   }
 ) {
   const filteredUsers = computed(() => {
-    let result = users.value;
-
-    // Apply gender filter
-    if (filterCriteria.genderFilter.value !== 'all') {
-      result = result.filter((user) => user.gender === filterCriteria.genderFilter.value);
-    }
-
-    // Apply profile picture filter
-    if (filterCriteria.profilePictureFilter.value !== 'all') {
-      result = result.filter((user) => {
-        const hasProfilePicture = user.profilePicture && user.profilePicture.trim() !== '';
-        return filterCriteria.profilePictureFilter.value === 'with'
-          ? hasProfilePicture
-          : !hasProfilePicture;
-      });
-    }
-
-    // Apply date of birth filter
-    if (filterCriteria.dateOfBirthFilter.value) {
-      const filterDate = new Date(filterCriteria.dateOfBirthFilter.value);
-      result = result.filter((user) => {
-        const userDate = new Date(user.dateOfBirth);
-        return userDate.toDateString() === filterDate.toDateString();
-      });
-    }
-
-    // Apply created at filter
-    if (filterCriteria.createdAtFilter.value) {
-      const filterDate = new Date(filterCriteria.createdAtFilter.value);
-      result = result.filter((user) => {
-        const userDate = new Date(user.createdAt);
-        return userDate.toDateString() === filterDate.toDateString();
-      });
-    }
-
-    // Apply updated at filter
-    if (filterCriteria.updatedAtFilter.value) {
-      const filterDate = new Date(filterCriteria.updatedAtFilter.value);
-      result = result.filter((user) => {
-        const userDate = new Date(user.updatedAt);
-        return userDate.toDateString() === filterDate.toDateString();
-      });
-    }
+    let result = filterUsers(
+      users.value,
+      {
+        search: filterCriteria.searchQuery.value,
+        gender: filterCriteria.genderFilter.value,
+        profilePicture: filterCriteria.profilePictureFilter.value,
+        dateOfBirth: filterCriteria.dateOfBirthFilter.value,
+        createdAt: filterCriteria.createdAtFilter.value,
+        updatedAt: filterCriteria.updatedAtFilter.value,
+        age: filterCriteria.ageRangeFilter.value,
+        customFields: filterCriteria.customFieldFilters.value,
+      },
+      filterCriteria.customFields.value
+    );
 
     // Apply sorting
     result = [...result].sort((a, b) => {
@@ -0,0 +1,47 @@
+import { computed, ref } from 'vue';
+import { profilePictureService } from '@/service';
+
+/**
+ * Uploads profile pictures ahead of the user write that references them
+ *
+ * State is local to each caller, since only one form uploads at a time.
+ */
+export const useProfilePicture = () => {
+  const uploading = ref(false);
+  const error = ref<string | null>(null);
+
+  const uploadProfilePicture = async (image: Blob): Promise<string | null> => {
+    try {
+      uploading.value = true;
+      error.value = null;
+      return await profilePictureService.uploadProfilePicture(image);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unexpected error occurred';
+      error.value = errorMessage;
+      console.error('Uploading profile picture failed:', errorMessage);
+      return null;
+    } finally {
+      uploading.value = false;
+    }
+  };
+
+  /**
+   * Deletes an uploaded picture that ended up unused, e.g. because saving
+   * the user failed; failures are only logged
+   */
+  const discardUpload = async (url: string): Promise<void> => {
+    try {
+      await profilePictureService.deleteProfilePicture(url);
+    } catch (err) {
+      console.warn('Failed to delete unused profile picture:', err);
+    }
+  };
+
+  return {
+    uploading: computed(() => uploading.value),
+    error: computed(() => error.value),
+
+    uploadProfilePicture,
+    discardUpload,
+  };
+};
@@ -0,0 +1,182 @@
+import { computed, getCurrentScope, onScopeDispose, ref, shallowRef } from 'vue';
+import { savedViewService, toUserServiceError } from '@/service';
+import type { Unsubscribe, UserServiceError } from '@/service';
+import type { SavedView, SavedViewVisibility } from '@/models/savedView';
+import { parseUserQuery, serializeUserQuery } from '@/lib/userQuery';
+import type { UserQueryState } from '@/lib/userQuery';
+
+export type SavedViewOperation = 'fetch' | 'create' | 'update' | 'delete' | 'setDefault';
+
+const views = ref<SavedView[]>([]);
+const defaultViewId = ref<string | null>(null);
+const loading = ref(false);
+const errors = shallowRef<Partial<Record<SavedViewOperation, UserServiceError>>>({});
+
+let subscribers = 0;
+let stopSubscription: Unsubscribe | null = null;
+
+const setOperationError = (operation: SavedViewOperation, err: unknown): UserServiceError => {
+  const serviceError = toUserServiceError(err);
+  errors.value = { ...errors.value, [operation]: serviceError };
+  return serviceError;
+};
+
+const clearOperationError = (operation: SavedViewOperation) => {
+  if (!errors.value[operation]) return;
+
+  const { [operation]: _cleared, ...rest } = errors.value;
+  errors.value = rest;
+};
+
+/**
+ * Query state a view stands for
+ */
+export const getSavedViewState = (view: SavedView): UserQueryState => {
+  return parseUserQuery(new URLSearchParams(view.query));
+};
+
+/**
+ * Whether the state shows exactly what the view does
+ */
+export const isSavedViewApplied = (view: SavedView, state: UserQueryState): boolean => {
+  return serializeUserQuery(state).toString() === view.query;
+};
+
+const retainSubscription = () => {
+  subscribers++;
+  if (subscribers !== 1) return;
+
+  // Loaded once both the views and the account's default have arrived
+  let pending = 2;
+  const settle = () => {
+    pending = Math.max(0, pending - 1);
+    if (pending === 0) loading.value = false;
+  };
+
+  loading.value = true;
+  clearOperationError('fetch');
+  stopSubscription = savedViewService.subscribeToViews(
+    (changed) => {
+      views.value = changed;
+      settle();
+    },
+    (err) => {
+      setOperationError('fetch', err);
+      settle();
+    }
+  );
+
+  savedViewService
+    .getDefaultViewId()
+    .then((id) => {
+      defaultViewId.value = id;
+    })
+    .catch((err) => setOperationError('fetch', err))
+    .finally(settle);
+};
+
+// Views belong to the signed-in account, so nothing is kept for the next one
+const releaseSubscription = () => {
+  subscribers = Math.max(0, subscribers - 1);
+  if (subscribers === 0 && stopSubscription) {
+    stopSubscription();
+    stopSubscription = null;
+    views.value = [];
+    defaultViewId.value = null;
+  }
+};
+
+/**
+ * Named list views of the signed-in account and those shared with the team
+ *
+ * Every caller shares one live subscription, detached once the last of them
+ * is unmounted, so views saved by teammates show up immediately.
+ */
+export const useSavedViews = () => {
+  retainSubscription();
+  if (getCurrentScope()) {
+    onScopeDispose(releaseSubscription);
+  }
+
+  /**
+   * Runs a write, recording its failure under `operation`; the subscription
+   * delivers the resulting views
+   */
+  const withErrorHandling = async <T>(
+    operation: SavedViewOperation,
+    write: () => Promise<T>
+  ): Promise<T | null> => {
+    try {
+      clearOperationError(operation);
+      return await write();
+    } catch (err) {
+      const serviceError = setOperationError(operation, err);
+      console.error(`Saved view operation ${operation} failed:`, serviceError);
+      return null;
+    }
+  };
+
+  /**
+   * Saves the state's view mode, sorting and filters under a name
+   */
+  const saveView = (name: string, visibility: SavedViewVisibility, state: UserQueryState) => {
+    return withErrorHandling('create', () =>
+      savedViewService.createView({
+        name,
+        visibility,
+        query: serializeUserQuery(state).toString(),
+      })
+    );
+  };
+
+  /**
+   * Replaces what a view shows with the state, keeping its name and sharing
+   */
+  const overwriteView = (id: string, state: UserQueryState) => {
+    return withErrorHandling('update', () =>
+      savedViewService.updateView(id, { query: serializeUserQuery(state).toString() })
+    );
+  };
+
+  const deleteView = async (id: string): Promise<boolean> => {
+    const result = await withErrorHandling('delete', async () => {
+      await savedViewService.deleteView(id);
+      return true;
+    });
+    return result ?? false;
+  };
+
+  /**
+   * Picks the view the list opens with, or none; shown right away and
+   * reverted if it cannot be saved
+   */
+  const setDefaultView = async (id: string | null): Promise<boolean> => {
+    const previous = defaultViewId.value;
+    defaultViewId.value = id;
+
+    const result = await withErrorHandling('setDefault', async () => {
+      await savedViewService.setDefaultViewId(id);
+      return true;
+    });
+    if (!result) {
+      defaultViewId.value = previous;
+    }
+    return result ?? false;
+  };
+
+  return {
+    views: computed(() => views.value),
+    /** The account's default view, unless it has since been deleted or unshared */
+    defaultView: computed(
+      () => views.value.find((view) => view.id === defaultViewId.value) ?? null
+    ),
+    loading: computed(() => loading.value),
+    errors: computed(() => errors.value),
+
+    saveView,
+    overwriteView,
+    deleteView,
+    setDefaultView,
+    clearError: clearOperationError,
+  };
+};
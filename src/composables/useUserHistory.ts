@@ -0,0 +1,93 @@
+import { computed, ref, watch } from 'vue';
+import type { Ref } from 'vue';
+import { userService } from '@/service';
+import { getCustomFieldKey, getUserVersion } from '@/models/userHistory';
+import type { HistoryField } from '@/models/userHistory';
+import type { UserHistoryEntry } from '@/models/userHistory';
+import type { UpdateUserInput, User } from '@/models/user';
+import { useUsers } from './useUsers';
+
+/**
+ * Change history of a single user
+ *
+ * Reloads whenever a different user is passed in. State is local to each
+ * caller since only one history panel is open at a time.
+ */
+export const useUserHistory = (user: Ref<User | null>) => {
+  const { getUserById, updateUser } = useUsers();
+
+  const history = ref<UserHistoryEntry[]>([]);
+  const loading = ref(false);
+  const error = ref<string | null>(null);
+
+  const fetchHistory = async (): Promise<boolean> => {
+    const userId = user.value?.id;
+    if (!userId) {
+      history.value = [];
+      return false;
+    }
+
+    try {
+      loading.value = true;
+      error.value = null;
+      history.value = await userService.getUserHistory(userId);
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unexpected error occurred';
+      error.value = errorMessage;
+      console.error('Fetching user history failed:', errorMessage);
+      return false;
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  /**
+   * Restores the user's data to how it was right after the given entry
+   *
+   * Applied as a regular update, so the revert shows up in the history and
+   * can itself be reverted. Trash state is left untouched, and fields the
+   * history does not know a value for are kept as they are. So is the
+   * profile picture: replaced pictures are deleted from storage, so an older
+   * URL no longer resolves, and sending one would delete the current file.
+   */
+  const revertTo = async (entryId: string): Promise<User | null> => {
+    const userId = user.value?.id;
+    const current = userId ? await getUserById(userId) : null;
+    if (!userId || !current) return null;
+
+    const version = getUserVersion(current, history.value, entryId);
+    const customFields = Object.fromEntries(
+      Object.entries(version).flatMap(([field, value]) => {
+        const key = getCustomFieldKey(field as HistoryField);
+        return key === null || value instanceof Date ? [] : [[key, value ?? null]];
+      })
+    );
+    const input: UpdateUserInput = {
+      ...(typeof version.name === 'string' && { name: version.name }),
+      ...(typeof version.email === 'string' && { email: version.email }),
+      ...(version.dateOfBirth instanceof Date && { dateOfBirth: version.dateOfBirth }),
+      ...((version.gender === 'male' || version.gender === 'female') && {
+        gender: version.gender,
+      }),
+      ...(Object.keys(customFields).length > 0 && { customFields }),
+    };
+
+    const updatedUser = await updateUser({ id: userId, ...input });
+    if (updatedUser) {
+      await fetchHistory();
+    }
+    return updatedUser;
+  };
+
+  watch(() => user.value?.id, fetchHistory, { immediate: true });
+
+  return {
+    history: computed(() => history.value),
+    loading: computed(() => loading.value),
+    error: computed(() => error.value),
+
+    fetchHistory,
+    revertTo,
+  };
+};
@@ -0,0 +1,141 @@
+import { computed, ref, watch } from 'vue';
+import { useRoute, useRouter } from 'vue-router';
+import type { LocationQuery, LocationQueryRaw } from 'vue-router';
+import type { User } from '@/models/user';
+import type { AgeRangeFilter, DateRangeFilter } from '@/lib/dateRange';
+import { createDefaultUserQueryState, parseUserQuery, serializeUserQuery } from '@/lib/userQuery';
+import type { ProfilePictureFilter, UserQueryState, ViewMode } from '@/lib/userQuery';
+import type { CustomFieldFilters } from '@/lib/customFieldFilter';
+
+const defaults = createDefaultUserQueryState();
+
+const viewMode = ref<ViewMode>(defaults.viewMode);
+const sortBy = ref<keyof User>(defaults.sortBy);
+const sortOrder = ref<'asc' | 'desc'>(defaults.sortOrder);
+const searchQuery = ref(defaults.search);
+const genderFilter = ref<User['gender'] | 'all'>(defaults.gender);
+const profilePictureFilter = ref<ProfilePictureFilter>(defaults.profilePicture);
+const dateOfBirthFilter = ref<DateRangeFilter>(defaults.dateOfBirth);
+const createdAtFilter = ref<DateRangeFilter>(defaults.createdAt);
+const updatedAtFilter = ref<DateRangeFilter>(defaults.updatedAt);
+const ageRangeFilter = ref<AgeRangeFilter>(defaults.age);
+const customFieldFilters = ref<CustomFieldFilters>(defaults.customFields);
+
+const getState = (): UserQueryState => ({
+  viewMode: viewMode.value,
+  sortBy: sortBy.value,
+  sortOrder: sortOrder.value,
+  search: searchQuery.value,
+  gender: genderFilter.value,
+  profilePicture: profilePictureFilter.value,
+  dateOfBirth: dateOfBirthFilter.value,
+  createdAt: createdAtFilter.value,
+  updatedAt: updatedAtFilter.value,
+  age: ageRangeFilter.value,
+  customFields: customFieldFilters.value,
+});
+
+const applyState = (state: UserQueryState) => {
+  viewMode.value = state.viewMode;
+  sortBy.value = state.sortBy;
+  sortOrder.value = state.sortOrder;
+  searchQuery.value = state.search;
+  genderFilter.value = state.gender;
+  profilePictureFilter.value = state.profilePicture;
+  dateOfBirthFilter.value = state.dateOfBirth;
+  createdAtFilter.value = state.createdAt;
+  updatedAtFilter.value = state.updatedAt;
+  ageRangeFilter.value = state.age;
+  customFieldFilters.value = state.customFields;
+};
+
+/**
+ * Reads a route query into URL search params; repeated keys keep their
+ * first value
+ */
+const toSearchParams = (query: LocationQuery): URLSearchParams => {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    const first = Array.isArray(value) ? value[0] : value;
+    if (typeof first === 'string') params.set(key, first);
+  });
+  return params;
+};
+
+const toRouteQuery = (state: UserQueryState): LocationQueryRaw => {
+  return Object.fromEntries(serializeUserQuery(state));
+};
+
+const isSameQuery = (state: UserQueryState, query: LocationQuery): boolean => {
+  return serializeUserQuery(state).toString() === toSearchParams(query).toString();
+};
+
+/**
+ * Mirrors the query state into the current route's query
+ *
+ * Restores the state from the route, pushes a history entry whenever it
+ * changes afterwards and re-applies the state on back/forward navigation.
+ * Both directions stop once the route changes, so navigating to another
+ * page neither resets the filters nor carries them along. Must be called
+ * from a component's setup; syncing ends when it unmounts.
+ */
+const startUrlSync = () => {
+  const route = useRoute();
+  const router = useRouter();
+  const routeName = route.name;
+
+  applyState(parseUserQuery(toSearchParams(route.query)));
+
+  // Normalize the URL so invalid parameters are dropped right away
+  if (!isSameQuery(getState(), route.query)) {
+    router.replace({ query: toRouteQuery(getState()), hash: route.hash });
+  }
+
+  watch(
+    getState,
+    (state) => {
+      if (route.name !== routeName || isSameQuery(state, route.query)) return;
+      router.push({ query: toRouteQuery(state), hash: route.hash });
+    },
+    { deep: true }
+  );
+
+  watch(
+    () => route.query,
+    (query) => {
+      if (route.name !== routeName || isSameQuery(getState(), query)) return;
+      applyState(parseUserQuery(toSearchParams(query)));
+    }
+  );
+};
+
+/**
+ * Shared view, sort and filter state for the user list
+ *
+ * Pass `syncUrl` from the top-level view to keep the state in the URL so
+ * refreshing or sharing a link restores the same list.
+ */
+export const useUserQueryState = (options: { syncUrl?: boolean } = {}) => {
+  if (options.syncUrl) {
+    startUrlSync();
+  }
+
+  return {
+    viewMode,
+    sortBy,
+    sortOrder,
+    searchQuery,
+    genderFilter,
+    profilePictureFilter,
+    dateOfBirthFilter,
+    createdAtFilter,
+    updatedAtFilter,
+    ageRangeFilter,
+    customFieldFilters,
+
+    getState,
+    applyState,
+    /** Route query of the current state, for links back to the list */
+    routeQuery: computed(() => toRouteQuery(getState())),
+  };
+};
@@ -0,0 +1,65 @@
+import { computed, ref } from 'vue';
+import type { User } from '@/models/user';
+
+const selectedIds = ref<string[]>([]);
+
+/**
+ * Shared multi-selection of users across the list, grid and table views
+ *
+ * Only IDs are stored, so the selection survives live updates of the
+ * selected users themselves.
+ */
+export const useUserSelection = () => {
+  const selectedCount = computed(() => selectedIds.value.length);
+
+  const isSelected = (id: string | undefined): boolean => {
+    return !!id && selectedIds.value.includes(id);
+  };
+
+  const setSelection = (ids: string[]) => {
+    selectedIds.value = [...new Set(ids)];
+  };
+
+  const toggleSelection = (id: string, selected = !isSelected(id)) => {
+    if (selected === isSelected(id)) return;
+    selectedIds.value = selected
+      ? [...selectedIds.value, id]
+      : selectedIds.value.filter((selectedId) => selectedId !== id);
+  };
+
+  const selectAll = (users: User[]) => {
+    setSelection([...selectedIds.value, ...users.flatMap((user) => (user.id ? [user.id] : []))]);
+  };
+
+  const clearSelection = () => {
+    selectedIds.value = [];
+  };
+
+  /**
+   * Drops selected IDs that are not among the given users, e.g. after they
+   * were deleted or filtered out, so bulk actions never touch hidden users
+   */
+  const pruneSelection = (users: User[]) => {
+    const available = new Set(users.map((user) => user.id));
+    if (selectedIds.value.every((id) => available.has(id))) return;
+    selectedIds.value = selectedIds.value.filter((id) => available.has(id));
+  };
+
+  const getSelectedUsers = (users: User[]): User[] => {
+    const selected = new Set(selectedIds.value);
+    return users.filter((user) => user.id && selected.has(user.id));
+  };
+
+  return {
+    selectedIds: computed(() => selectedIds.value),
+    selectedCount,
+
+    isSelected,
+    setSelection,
+    toggleSelection,
+    selectAll,
+    clearSelection,
+    pruneSelection,
+    getSelectedUsers,
+  };
+};
@@ -0,0 +1,54 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { userService } from '@/service';
+import { DEFAULT_PAGE_SIZE, useUsers } from './useUsers';
+
+const createUser = (number: number) => {
+  return userService.createUser({
+    name: 'Test User',
+    email: `user${String(number).padStart(3, '0')}@example.com`,
+    dateOfBirth: new Date('1990-01-01'),
+    gender: 'female',
+  });
+};
+
+describe('useUsers realtime pages', () => {
+  beforeAll(() => {
+    vi.stubEnv('VITE_USER_REPOSITORY', 'memory');
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('keeps the users pushed out of the first page when several are inserted into it', async () => {
+    for (let number = 100; number < 100 + DEFAULT_PAGE_SIZE * 3; number++) {
+      await createUser(number);
+    }
+
+    const { users, setOrdering, loadMore, loadingMore } = useUsers({ realtime: true });
+    await setOrdering('email', 'asc');
+    await vi.waitFor(() => expect(users.value).toHaveLength(DEFAULT_PAGE_SIZE));
+
+    await loadMore();
+    await vi.waitFor(() => {
+      expect(loadingMore.value).toBe(false);
+      expect(users.value).toHaveLength(DEFAULT_PAGE_SIZE * 2);
+    });
+
+    // Sorted before everyone else, so they land in the first page
+    await createUser(1);
+    await createUser(2);
+    await createUser(3);
+
+    const expected = [
+      1,
+      2,
+      3,
+      ...Array.from({ length: DEFAULT_PAGE_SIZE * 2 - 3 }, (_, i) => i + 100),
+    ].map((number) => `user${String(number).padStart(3, '0')}@example.com`);
+
+    await vi.waitFor(() => {
+      expect(users.value.map((user) => user.email)).toEqual(expected);
+    });
+  });
+});
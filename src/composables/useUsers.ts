@@ -1,12 +1,413 @@
-import { ref, computed } from 'vue';
-import { userService } from '@/service/firebase';
+import { ref, shallowRef, computed, getCurrentScope, onScopeDispose } from 'vue';
+import {
+  DEFAULT_USER_ORDERING,
+  isServerSortField,
+  profilePictureService,
+  toUserServiceError,
+  userService,
+} from '@/service';
+import type {
+  BulkWriteResult,
+  UserServiceError,
+  Unsubscribe,
+  UserChange,
+  UserOrdering,
+  UserPageCursor,
+} from '@/service';
+import { normalizeEmail } from '../models/user';
 import type { User, CreateUserInput, UpdateUserInput } from '../models/user';
 
+export interface ImportUserInput {
+  /** Caller-defined key used to report failures back, e.g. the CSV row number */
+  key: string | number;
+  id?: string;
+  input: CreateUserInput;
+}
+
+export interface ImportUsersResult {
+  created: number;
+  updated: number;
+  failed: { key: string | number; message: string }[];
+}
+
+export interface UseUsersOptions {
+  /**
+   * Keeps `users` in sync with the backend through a live subscription.
+   * The listener is shared by all components that opt in and is detached
+   * once the last of them is unmounted.
+   */
+  realtime?: boolean;
+}
+
+/**
+ * Operations whose last failure is tracked separately, so each part of the
+ * UI only reacts to the errors of what it triggered
+ *
+ * `fetch` covers the first page and the live subscription.
+ */
+export type UserOperation =
+  | 'fetch'
+  | 'loadMore'
+  | 'getById'
+  | 'create'
+  | 'update'
+  | 'delete'
+  | 'restore'
+  | 'purge'
+  | 'fetchDeleted'
+  | 'bulkUpdate'
+  | 'bulkDelete'
+  | 'bulkRestore'
+  | 'import';
+
+export const DEFAULT_PAGE_SIZE = 24;
+
+const IMPORT_TRASHED_USER_MESSAGE = 'User is in the trash; restore it before importing';
+
 const users = ref<User[]>([]);
 const loading = ref(false);
+// Message of the most recent failure of any operation
 const error = ref<string | null>(null);
+const errors = shallowRef<Partial<Record<UserOperation, UserServiceError>>>({});
+
+// Pagination state shared by every consumer of the users list
+const pageSize = ref(DEFAULT_PAGE_SIZE);
+const pagesLoaded = ref(0);
+const hasMore = ref(false);
+const loadingMore = ref(false);
+const ordering = ref<UserOrdering>({ ...DEFAULT_USER_ORDERING });
+const pageCursor = shallowRef<UserPageCursor | null>(null);
+
+// Users in the trash, loaded on demand by the trash view
+const deletedUsers = ref<User[]>([]);
+const deletedLoading = ref(false);
+
+// Users with a write in flight; their rows show a spinner until it settles
+const pendingIds = ref<string[]>([]);
+
+// Users with local changes the backend has not confirmed yet, e.g. edits
+// made offline; only reported by the live subscription
+const unsyncedIds = ref<string[]>([]);
+
+// Placeholders for users being created carry a temporary ID with this prefix
+const PLACEHOLDER_ID_PREFIX = 'pending-';
+
+/**
+ * Records the failure of an operation, returning it as a typed error
+ */
+const setOperationError = (operation: UserOperation, err: unknown): UserServiceError => {
+  const serviceError = toUserServiceError(err);
+  errors.value = { ...errors.value, [operation]: serviceError };
+  error.value = serviceError.message;
+  return serviceError;
+};
+
+const clearOperationError = (operation: UserOperation) => {
+  if (!errors.value[operation]) return;
+
+  const { [operation]: _cleared, ...rest } = errors.value;
+  errors.value = rest;
+};
+
+/**
+ * One loaded page of the live subscription
+ *
+ * Each page has its own listener, so loading more never re-reads the users
+ * of the pages already loaded.
+ */
+interface RealtimePage {
+  stop: Unsubscribe;
+  /** IDs of the page's current result, in order */
+  ids: string[];
+  /** Last user of the page's result, where the next page starts */
+  cursor: UserPageCursor | null;
+  limit: number;
+  /** Set until the listener's first snapshot arrives */
+  awaitingSnapshot: boolean;
+}
+
+let realtimeSubscribers = 0;
+// Loaded pages of the live subscription in order, empty while it is stopped
+let realtimePages: RealtimePage[] = [];
+// Users that left a page while another page was still loading; they are only
+// dropped once every page has caught up and none of them holds the user
+let orphanedIds = new Set<string>();
+
+/**
+ * Inserts or replaces a user in the shared list
+ *
+ * Without an index an existing entry is replaced in place and a new one is
+ * prepended; with an index the user is moved to that position.
+ */
+const upsertUser = (user: User, index?: number) => {
+  // Emails are unique, so a saved user takes over the placeholder of its
+  // creation, whether it comes from the write or the live subscription
+  const hasPlaceholders = pendingIds.value.some((id) => id.startsWith(PLACEHOLDER_ID_PREFIX));
+  if (hasPlaceholders && !user.id?.startsWith(PLACEHOLDER_ID_PREFIX)) {
+    const email = normalizeEmail(user.email);
+    users.value = users.value.filter(
+      (candidate) =>
+        !candidate.id?.startsWith(PLACEHOLDER_ID_PREFIX) ||
+        normalizeEmail(candidate.email) !== email
+    );
+  }
+
+  const existingIndex = users.value.findIndex((candidate) => candidate.id === user.id);
+
+  if (existingIndex !== -1 && index === undefined) {
+    users.value[existingIndex] = user;
+    return;
+  }
+
+  if (existingIndex !== -1) {
+    users.value.splice(existingIndex, 1);
+  }
+  users.value.splice(Math.min(index ?? 0, users.value.length), 0, user);
+};
+
+const setPending = (id: string, pending: boolean) => {
+  pendingIds.value = pending
+    ? [...pendingIds.value, id]
+    : pendingIds.value.filter((pendingId) => pendingId !== id);
+};
+
+const removeUser = (id: string) => {
+  users.value = users.value.filter((user) => user.id !== id);
+};
+
+/**
+ * Fields of an update input that are actually set, ready to be spread over
+ * a user
+ */
+const getDefinedChanges = (userInput: UpdateUserInput): Partial<User> => {
+  return Object.fromEntries(Object.entries(userInput).filter(([, value]) => value !== undefined));
+};
+
+/**
+ * Deletes the stored profile picture a write has replaced or orphaned
+ *
+ * Best effort: the user write has already succeeded, so a failure only
+ * leaves an unused file behind and is logged rather than reported.
+ */
+const discardProfilePicture = (previous: User | null | undefined, current?: User) => {
+  const url = previous?.profilePicture;
+  if (!url || url === current?.profilePicture) return;
+
+  profilePictureService
+    .deleteProfilePicture(url)
+    .catch((err) => console.warn('Failed to delete profile picture:', err));
+};
+
+/**
+ * Position of a user across the loaded pages, counting users shared by two
+ * adjacent pages once
+ */
+const realtimeIndexOf = (id: string): number => {
+  const seen = new Set<string>();
+  for (const page of realtimePages) {
+    for (const pageId of page.ids) {
+      if (pageId === id) return seen.size;
+      seen.add(pageId);
+    }
+  }
+  return seen.size;
+};
+
+/**
+ * Removes users that no loaded page holds anymore
+ *
+ * A user pushed out of one page moves to the next one, which may still be
+ * resubscribing, so nothing is removed until every page has its snapshot.
+ */
+const dropOrphans = (ids: string[]) => {
+  ids.forEach((id) => orphanedIds.add(id));
+  if (realtimePages.some((page) => page.awaitingSnapshot)) return;
+
+  const dropped = [...orphanedIds].filter(
+    (id) => !realtimePages.some((page) => page.ids.includes(id))
+  );
+  orphanedIds = new Set();
+  if (dropped.length === 0) return;
+
+  users.value = users.value.filter((user) => !user.id || !dropped.includes(user.id));
+  unsyncedIds.value = unsyncedIds.value.filter((id) => !dropped.includes(id));
+};
+
+/**
+ * Applies a page's changes to the shared list, returning the IDs that left
+ * the page for `dropOrphans`
+ */
+const applyChanges = (page: RealtimePage, changes: UserChange[]): string[] => {
+  const unsynced = new Set(unsyncedIds.value);
+  const removed: string[] = [];
+
+  for (const change of changes) {
+    if (change.type === 'removed') {
+      page.ids = page.ids.filter((id) => id !== change.id);
+      removed.push(change.id);
+    } else if (change.user.id) {
+      const id = change.user.id;
+      page.ids = page.ids.filter((pageId) => pageId !== id);
+      page.ids.splice(change.index, 0, id);
+      upsertUser(change.user, realtimeIndexOf(id));
+      if (change.pendingSync) {
+        unsynced.add(id);
+      } else {
+        unsynced.delete(id);
+      }
+    }
+  }
+
+  unsyncedIds.value = [...unsynced];
+  return removed;
+};
+
+/**
+ * Starts or restarts the listener of a loaded page at `startAt`
+ *
+ * A later page starts at the last user of the page before it. Whenever that
+ * user changes, e.g. because users were inserted into the earlier page and
+ * pushed its tail out, the later page is resubscribed from the new end so
+ * the pushed out users stay covered. The first snapshot of a new listener
+ * lists its whole result as added.
+ *
+ * The list is only replaced once the first page's snapshot arrives, which
+ * keeps the current users on screen while it is loading.
+ */
+const listenToPage = (page: RealtimePage, startAt: UserPageCursor | null) => {
+  const isFirstPage = realtimePages[0] === page;
+  const operation: UserOperation = isFirstPage ? 'fetch' : 'loadMore';
+  const busy = isFirstPage ? loading : loadingMore;
+
+  page.stop();
+  page.awaitingSnapshot = true;
+
+  // Snapshots already queued for a replaced listener are ignored
+  let active = true;
+  const stop = userService.subscribeToUsers(
+    { ...ordering.value, limit: page.limit, startAt },
+    (changes, cursor) => {
+      const index = realtimePages.indexOf(page);
+      if (!active || index === -1) return;
+
+      const end = page.ids[page.ids.length - 1];
+      const left: string[] = [];
+
+      if (page.awaitingSnapshot) {
+        if (isFirstPage) {
+          // Replace whatever a previous fetch or ordering left behind
+          users.value = [];
+          unsyncedIds.value = [];
+        } else {
+          left.push(...page.ids);
+        }
+        page.ids = [];
+        page.awaitingSnapshot = false;
+        if (index === realtimePages.length - 1) {
+          busy.value = false;
+        }
+      }
+      page.cursor = cursor;
+      left.push(...applyChanges(page, changes));
+
+      const next = realtimePages[index + 1];
+      if (next && page.ids[page.ids.length - 1] !== end) {
+        listenToPage(next, cursor);
+      }
+      dropOrphans(left);
+
+      const last = realtimePages[realtimePages.length - 1];
+      hasMore.value = last !== undefined && last.ids.length >= last.limit;
+    },
+    (err) => {
+      setOperationError(operation, err);
+      page.awaitingSnapshot = false;
+      busy.value = false;
+    }
+  );
+
+  page.stop = () => {
+    active = false;
+    stop();
+  };
+};
+
+/**
+ * Listens to the page after the last loaded one, or to the first page when
+ * none is loaded
+ */
+const subscribeToPage = () => {
+  const previous = realtimePages[realtimePages.length - 1];
+  const isLoadingMore = previous !== undefined;
+  const operation: UserOperation = isLoadingMore ? 'loadMore' : 'fetch';
+  const busy = isLoadingMore ? loadingMore : loading;
+
+  const page: RealtimePage = {
+    stop: () => {},
+    ids: [],
+    cursor: null,
+    // One more than a page for the user shared with the previous page
+    limit: isLoadingMore ? pageSize.value + 1 : pageSize.value,
+    awaitingSnapshot: true,
+  };
+  realtimePages = [...realtimePages, page];
+  pagesLoaded.value = realtimePages.length;
+
+  busy.value = true;
+  error.value = null;
+  clearOperationError(operation);
+
+  listenToPage(page, previous?.cursor ?? null);
+};
+
+const stopRealtime = () => {
+  realtimePages.forEach((page) => page.stop());
+  realtimePages = [];
+  orphanedIds = new Set();
+};
+
+/**
+ * Listens to the first page in the current ordering, dropping the listeners
+ * of every page loaded before
+ */
+const startRealtime = () => {
+  stopRealtime();
+  pagesLoaded.value = 0;
+  subscribeToPage();
+};
+
+const retainRealtime = () => {
+  realtimeSubscribers++;
+  if (realtimeSubscribers === 1) {
+    startRealtime();
+  }
+};
+
+const releaseRealtime = () => {
+  realtimeSubscribers = Math.max(0, realtimeSubscribers - 1);
+  if (realtimeSubscribers === 0) {
+    stopRealtime();
+  }
+};
+
+export const useUsers = (options: UseUsersOptions = {}) => {
+  if (options.realtime) {
+    retainRealtime();
+    if (getCurrentScope()) {
+      onScopeDispose(releaseRealtime);
+    }
+  }
+
+  /**
+   * Drops a user the backend reported as missing from the loaded list, so a
+   * record deleted elsewhere does not linger on screen
+   */
+  const forgetMissingUser = (operation: UserOperation, id: string) => {
+    if (errors.value[operation]?.code !== 'not-found') return;
+
+    removeUser(id);
+  };
 
-export const useUsers = () => {
   const userCount = computed(() => users.value.length);
   const hasUsers = computed(() => users.value.length > 0);
 
@@ -16,14 +417,34 @@ export const useUsers = () => {
    * This function implements the Decorator pattern to add consistent loading state
    * management and error handling to all async operations. It creates a clean
    * abstraction that eliminates repetitive try/catch/finally blocks.
+   *
+   * Failures are recorded as a typed error under `operationName`, see `errors`.
    */
   const withLoadingAndError = async <T>(
+    operationName: UserOperation,
     operation: () => Promise<T>,
     successMessage?: string
   ): Promise<T | null> => {
     try {
       loading.value = true;
+      return await withErrorHandling(operationName, operation, successMessage);
+    } finally {
+      loading.value = false;
+    }
+  };
+
+  /**
+   * Error handling of `withLoadingAndError` without the global loading flag,
+   * for optimistic writes that keep the list on screen
+   */
+  const withErrorHandling = async <T>(
+    operationName: UserOperation,
+    operation: () => Promise<T>,
+    successMessage?: string
+  ): Promise<T | null> => {
+    try {
       error.value = null;
+      clearOperationError(operationName);
 
       const result = await operation();
 
@@ -33,69 +454,391 @@ export const useUsers = () => {
 
       return result;
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'An unexpected error occurred';
-      error.value = errorMessage;
-      console.error('Operation failed:', errorMessage);
+      const serviceError = setOperationError(operationName, err);
+      console.error(`Operation ${operationName} failed:`, serviceError);
       return null;
-    } finally {
-      loading.value = false;
     }
   };
 
+  /**
+   * Loads the first page of users in the current ordering
+   *
+   * Resets pagination; when the live subscription is active it is restarted
+   * on the first page instead of issuing a one-shot query.
+   */
   const fetchUsers = async (): Promise<boolean> => {
-    const result = await withLoadingAndError(async () => {
-      const fetchedUsers = await userService.getUsers();
-      users.value = fetchedUsers;
-      return fetchedUsers;
-    }, 'Users fetched successfully');
+    if (realtimePages.length > 0) {
+      startRealtime();
+      return true;
+    }
+
+    pagesLoaded.value = 1;
+
+    const result = await withLoadingAndError(
+      'fetch',
+      async () => {
+        const page = await userService.getUsersPage({
+          ...ordering.value,
+          pageSize: pageSize.value,
+        });
+        users.value = page.users;
+        pageCursor.value = page.cursor;
+        hasMore.value = page.hasMore;
+        return page.users;
+      },
+      'Users fetched successfully'
+    );
 
     return result !== null;
   };
 
+  /**
+   * Appends the next page of users
+   *
+   * Uses the cursor of the last loaded page, or listens to the next page
+   * when the realtime subscription is active. Does not toggle the global
+   * loading flag so already loaded users stay visible.
+   */
+  const loadMore = async (): Promise<boolean> => {
+    if (!hasMore.value || loadingMore.value || loading.value) {
+      return false;
+    }
+
+    if (realtimePages.length > 0) {
+      subscribeToPage();
+      return true;
+    }
+
+    try {
+      loadingMore.value = true;
+      error.value = null;
+      clearOperationError('loadMore');
+
+      const page = await userService.getUsersPage({
+        ...ordering.value,
+        pageSize: pageSize.value,
+        cursor: pageCursor.value,
+      });
+
+      const loadedIds = new Set(users.value.map((user) => user.id));
+      users.value.push(...page.users.filter((user) => !loadedIds.has(user.id)));
+      pageCursor.value = page.cursor;
+      hasMore.value = page.hasMore;
+      pagesLoaded.value++;
+      return true;
+    } catch (err) {
+      console.error('Loading more users failed:', setOperationError('loadMore', err));
+      return false;
+    } finally {
+      loadingMore.value = false;
+    }
+  };
+
+  /**
+   * Changes the ordering used for loading pages and reloads from the start
+   *
+   * Fields the backend cannot order by fall back to the default ordering;
+   * those are sorted client-side over the loaded pages only.
+   */
+  const setOrdering = async (sortBy: keyof User, sortOrder: 'asc' | 'desc'): Promise<void> => {
+    const next: UserOrdering = isServerSortField(sortBy)
+      ? { sortBy, sortOrder }
+      : { ...DEFAULT_USER_ORDERING };
+
+    if (next.sortBy === ordering.value.sortBy && next.sortOrder === ordering.value.sortOrder) {
+      return;
+    }
+
+    ordering.value = next;
+    await fetchUsers();
+  };
+
+  /**
+   * Creates a user, showing it right away as a pending placeholder
+   *
+   * The placeholder is replaced by the saved user once the write succeeds
+   * and removed again if it fails.
+   */
   const createUser = async (userInput: CreateUserInput): Promise<User | null> => {
-    const result = await withLoadingAndError(async () => {
-      const newUser = await userService.createUser(userInput);
-      users.value.unshift(newUser);
-      return newUser;
-    }, 'User created successfully');
+    const now = new Date();
+    const placeholderId = `${PLACEHOLDER_ID_PREFIX}${crypto.randomUUID()}`;
+
+    upsertUser({
+      ...userInput,
+      id: placeholderId,
+      createdAt: now,
+      updatedAt: now,
+      deletedAt: null,
+    });
+    setPending(placeholderId, true);
+
+    const result = await withErrorHandling(
+      'create',
+      () => userService.createUser(userInput),
+      'User created successfully'
+    );
+
+    removeUser(placeholderId);
+    setPending(placeholderId, false);
+    if (result) {
+      upsertUser(result);
+    }
 
     return result;
   };
 
+  /**
+   * Updates a user, applying the changes to the list before the write is
+   * confirmed
+   *
+   * The previous version is put back if the write fails.
+   */
   const updateUser = async (userInput: UpdateUserInput & { id: string }): Promise<User | null> => {
-    const result = await withLoadingAndError(async () => {
-      const { id, ...updateData } = userInput;
-      const updatedUser = await userService.updateUser(id, updateData);
-
-      const index = users.value.findIndex((user) => user.id === updatedUser.id);
-      if (index !== -1) {
-        users.value[index] = updatedUser;
-      }
-
-      return updatedUser;
-    }, 'User updated successfully');
+    const { id, ...updateData } = userInput;
+    const index = users.value.findIndex((user) => user.id === id);
+    const previousUser = users.value[index];
+
+    if (previousUser) {
+      users.value[index] = {
+        ...previousUser,
+        ...getDefinedChanges(updateData),
+        updatedAt: new Date(),
+      };
+    }
+    setPending(id, true);
+
+    const result = await withErrorHandling(
+      'update',
+      async () => {
+        const currentUser = previousUser ?? (await userService.getUserById(id));
+        const updatedUser = await userService.updateUser(id, updateData);
+        discardProfilePicture(currentUser, updatedUser);
+        return updatedUser;
+      },
+      'User updated successfully'
+    );
+
+    setPending(id, false);
+
+    // The row may have moved or gone while the write was in flight
+    const currentIndex = users.value.findIndex((user) => user.id === id);
+    const settledUser = result ?? previousUser;
+    if (currentIndex !== -1 && settledUser) {
+      users.value[currentIndex] = settledUser;
+    }
 
+    if (!result) forgetMissingUser('update', id);
     return result;
   };
 
+  /**
+   * Moves a user to the trash; it can be brought back with `restoreUser`
+   *
+   * The user leaves the list immediately and is put back in place if the
+   * write fails, unless it no longer exists.
+   */
   const deleteUser = async (id: string): Promise<boolean> => {
-    const result = await withLoadingAndError(async () => {
-      await userService.deleteUser(id);
+    const index = users.value.findIndex((user) => user.id === id);
+    const removedUser = users.value[index];
+    removeUser(id);
+
+    const result = await withErrorHandling(
+      'delete',
+      async () => {
+        await userService.deleteUser(id);
+        return true;
+      },
+      'User deleted successfully'
+    );
+
+    if (!result && removedUser && errors.value.delete?.code !== 'not-found') {
+      upsertUser(removedUser, index);
+    }
+    return result !== null;
+  };
 
-      users.value = users.value.filter((user) => user.id !== id);
-      return true;
-    }, 'User deleted successfully');
+  const restoreUser = async (id: string): Promise<User | null> => {
+    return await withLoadingAndError(
+      'restore',
+      async () => {
+        const restoredUser = await userService.restoreUser(id);
+
+        deletedUsers.value = deletedUsers.value.filter((user) => user.id !== id);
+        upsertUser(restoredUser);
+        return restoredUser;
+      },
+      'User restored successfully'
+    );
+  };
+
+  /**
+   * Permanently deletes a user; this cannot be undone
+   */
+  const purgeUser = async (id: string): Promise<boolean> => {
+    const result = await withLoadingAndError(
+      'purge',
+      async () => {
+        const purgedUser =
+          deletedUsers.value.find((user) => user.id === id) ?? (await userService.getUserById(id));
+        await userService.purgeUser(id);
+        discardProfilePicture(purgedUser);
+
+        deletedUsers.value = deletedUsers.value.filter((user) => user.id !== id);
+        users.value = users.value.filter((user) => user.id !== id);
+        return true;
+      },
+      'User permanently deleted'
+    );
 
     return result !== null;
   };
 
+  /**
+   * Loads the users in the trash
+   *
+   * Tracks its own loading flag so the main list stays on screen meanwhile.
+   */
+  const fetchDeletedUsers = async (): Promise<boolean> => {
+    try {
+      deletedLoading.value = true;
+      error.value = null;
+      clearOperationError('fetchDeleted');
+      deletedUsers.value = await userService.getDeletedUsers();
+      return true;
+    } catch (err) {
+      console.error('Fetching deleted users failed:', setOperationError('fetchDeleted', err));
+      return false;
+    } finally {
+      deletedLoading.value = false;
+    }
+  };
+
+  /**
+   * Applies the same change to several users with batched writes
+   *
+   * Resolves with the per-user outcome so partial failures can be reported;
+   * only an unexpected error resolves to null.
+   */
+  const bulkUpdateUsers = async (
+    ids: string[],
+    userInput: UpdateUserInput
+  ): Promise<BulkWriteResult | null> => {
+    return await withLoadingAndError(
+      'bulkUpdate',
+      async () => {
+        const result = await userService.bulkUpdateUsers(ids, userInput);
+        const succeeded = new Set(result.succeeded);
+        const changes = getDefinedChanges(userInput);
+
+        users.value = users.value.map((user) => {
+          if (!user.id || !succeeded.has(user.id)) return user;
+
+          const updatedUser = { ...user, ...changes, updatedAt: new Date() };
+          discardProfilePicture(user, updatedUser);
+          return updatedUser;
+        });
+        return result;
+      },
+      'Users updated successfully'
+    );
+  };
+
+  /**
+   * Moves several users to the trash with batched writes, reporting
+   * failures per user like `bulkUpdateUsers`
+   */
+  const bulkDeleteUsers = async (ids: string[]): Promise<BulkWriteResult | null> => {
+    return await withLoadingAndError(
+      'bulkDelete',
+      async () => {
+        const result = await userService.bulkDeleteUsers(ids);
+        const succeeded = new Set(result.succeeded);
+
+        users.value = users.value.filter((user) => !user.id || !succeeded.has(user.id));
+        return result;
+      },
+      'Users deleted successfully'
+    );
+  };
+
+  const bulkRestoreUsers = async (ids: string[]): Promise<BulkWriteResult | null> => {
+    const result = await withLoadingAndError(
+      'bulkRestore',
+      async () => {
+        const writeResult = await userService.bulkRestoreUsers(ids);
+        const succeeded = new Set(writeResult.succeeded);
+
+        deletedUsers.value = deletedUsers.value.filter(
+          (user) => !user.id || !succeeded.has(user.id)
+        );
+        return writeResult;
+      },
+      'Users restored successfully'
+    );
+
+    // Restored users may belong anywhere in the loaded pages; the live
+    // subscription places them by itself, otherwise reload from the start
+    if (result && result.succeeded.length > 0 && realtimePages.length === 0) {
+      await fetchUsers();
+    }
+
+    return result;
+  };
+
+  /**
+   * Creates or updates users in bulk
+   *
+   * Rows carrying an ID that matches an existing user are updated, all other
+   * rows are created. Rows are written one by one so a single failure does not
+   * abort the rest of the batch; failures are reported back per row key.
+   */
+  const importUsers = async (rows: ImportUserInput[]): Promise<ImportUsersResult | null> => {
+    return await withLoadingAndError(
+      'import',
+      async () => {
+        const result: ImportUsersResult = { created: 0, updated: 0, failed: [] };
+
+        for (const row of rows) {
+          try {
+            const existing = row.id ? await userService.getUserById(row.id) : null;
+
+            // Updating a trashed user would bring it back into the list while it
+            // stays deleted in storage; it has to be restored from the trash first
+            if (existing?.deletedAt) {
+              result.failed.push({ key: row.key, message: IMPORT_TRASHED_USER_MESSAGE });
+              continue;
+            }
+
+            if (existing?.id) {
+              const updatedUser = await userService.updateUser(existing.id, row.input);
+              discardProfilePicture(existing, updatedUser);
+              upsertUser(updatedUser);
+              result.updated++;
+            } else {
+              upsertUser(await userService.createUser(row.input));
+              result.created++;
+            }
+          } catch (err) {
+            result.failed.push({
+              key: row.key,
+              message: err instanceof Error ? err.message : 'An unexpected error occurred',
+            });
+          }
+        }
+
+        return result;
+      },
+      'Users imported successfully'
+    );
+  };
+
   const getUserById = async (id: string): Promise<User | null> => {
     const localUser = users.value.find((user) => user.id === id);
     if (localUser) {
       return localUser;
     }
 
-    const result = await withLoadingAndError(async () => {
+    const result = await withLoadingAndError('getById', async () => {
       return await userService.getUserById(id);
     });
 
@@ -106,14 +849,39 @@ export const useUsers = () => {
     return await fetchUsers();
   };
 
-  const clearError = () => {
+  const isPending = (id: string | undefined): boolean => {
+    return !!id && pendingIds.value.includes(id);
+  };
+
+  const isUnsynced = (id: string | undefined): boolean => {
+    return !!id && unsyncedIds.value.includes(id);
+  };
+
+  const getError = (operation: UserOperation): UserServiceError | null => {
+    return errors.value[operation] ?? null;
+  };
+
+  /**
+   * Clears the error of one operation, or every error when none is given
+   */
+  const clearError = (operation?: UserOperation) => {
+    if (operation) {
+      clearOperationError(operation);
+      return;
+    }
     error.value = null;
+    errors.value = {};
   };
 
   const resetState = () => {
     users.value = [];
+    unsyncedIds.value = [];
     loading.value = false;
     error.value = null;
+    errors.value = {};
+    pagesLoaded.value = 0;
+    hasMore.value = false;
+    pageCursor.value = null;
   };
 
   const filterUsersByGender = (gender: User['gender'] | 'all') => {
@@ -142,16 +910,37 @@ export const useUsers = () => {
     users: computed(() => users.value),
     loading: computed(() => loading.value),
     error: computed(() => error.value),
+    errors: computed(() => errors.value),
     userCount,
     hasUsers,
+    pageSize: computed(() => pageSize.value),
+    pagesLoaded: computed(() => pagesLoaded.value),
+    hasMore: computed(() => hasMore.value),
+    loadingMore: computed(() => loadingMore.value),
+    deletedUsers: computed(() => deletedUsers.value),
+    deletedLoading: computed(() => deletedLoading.value),
+    pendingIds: computed(() => pendingIds.value),
+    unsyncedIds: computed(() => unsyncedIds.value),
 
     fetchUsers,
     createUser,
     updateUser,
     deleteUser,
+    restoreUser,
+    purgeUser,
+    fetchDeletedUsers,
+    bulkUpdateUsers,
+    bulkDeleteUsers,
+    bulkRestoreUsers,
     getUserById,
     refreshUsers,
+    importUsers,
+    loadMore,
+    setOrdering,
 
+    isPending,
+    isUnsynced,
+    getError,
     clearError,
     resetState,
 
@@ -0,0 +1,218 @@
+import { computed, effectScope, ref, watch } from 'vue';
+import { en } from './locales/en';
+import type { Messages } from './locales/en';
+import { ms } from './locales/ms';
+
+export type { Messages };
+
+export interface LocaleOption {
+  value: string;
+  /** Name of the language in that language, for the switcher */
+  label: string;
+  /** Locale dates and numbers are formatted in */
+  intl: string;
+  dir: 'ltr' | 'rtl';
+}
+
+export const LOCALES = [
+  { value: 'en', label: 'English', intl: 'en-MY', dir: 'ltr' },
+  { value: 'ms', label: 'Bahasa Melayu', intl: 'ms-MY', dir: 'ltr' },
+] as const satisfies readonly LocaleOption[];
+
+export type Locale = (typeof LOCALES)[number]['value'];
+
+const MESSAGES: Record<Locale, Messages> = { en, ms };
+
+const STORAGE_KEY = 'g2g-assessment:locale';
+
+/**
+ * Dot-separated path of a message, e.g. `userForm.name`
+ */
+export type MessageKey<T = Messages> = {
+  [K in keyof T & string]: T[K] extends string ? K : `${K}.${MessageKey<T[K]>}`;
+}[keyof T & string];
+
+export type MessageParams = Record<string, string | number>;
+
+const isLocale = (value: unknown): value is Locale => {
+  return LOCALES.some((option) => option.value === value);
+};
+
+/**
+ * The saved choice, otherwise the first browser language we have messages for
+ *
+ * Falls back to English outside a browser, e.g. in scripts importing the models.
+ */
+const detectLocale = (): Locale => {
+  try {
+    const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+    if (isLocale(saved)) return saved;
+  } catch {
+    // Storage can be unavailable, e.g. in private windows
+  }
+
+  if (typeof navigator === 'undefined') return 'en';
+
+  const preferred = navigator.languages?.length ? navigator.languages : [navigator.language];
+  for (const language of preferred) {
+    const base = language.split('-')[0]?.toLowerCase();
+    if (isLocale(base)) return base;
+  }
+  return 'en';
+};
+
+// Detected on first use rather than on import, so modules can be loaded
+// before, or without, a browser environment
+const locale = ref<Locale | null>(null);
+
+const getLocale = (): Locale => {
+  if (locale.value === null) {
+    locale.value = detectLocale();
+  }
+  return locale.value;
+};
+
+const localeOption = computed(
+  () => LOCALES.find((option) => option.value === getLocale()) ?? LOCALES[0]
+);
+
+let syncing = false;
+
+const lookup = (messages: Messages, key: string): string | undefined => {
+  const message = key
+    .split('.')
+    .reduce<unknown>(
+      (node, part) =>
+        node && typeof node === 'object' ? (node as Record<string, unknown>)[part] : undefined,
+      messages
+    );
+  return typeof message === 'string' ? message : undefined;
+};
+
+const interpolate = (message: string, params: MessageParams): string => {
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+};
+
+/**
+ * Message in the current locale, falling back to English and then the key
+ *
+ * Reads the current locale, so templates and computeds using it update when
+ * the language changes.
+ */
+export const t = (key: MessageKey, params: MessageParams = {}): string => {
+  const message = lookup(MESSAGES[getLocale()], key) ?? lookup(en, key) ?? key;
+  return interpolate(message, params);
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const templatePatterns = new Map<string, RegExp>();
+
+// `{label} is required` matches `Department is required` with label set
+const toTemplatePattern = (template: string): RegExp => {
+  let pattern = templatePatterns.get(template);
+  if (!pattern) {
+    const source = template
+      .split(/\{(\w+)\}/)
+      .map((part, index) => (index % 2 ? `(?<${part}>.+?)` : escapeRegExp(part)))
+      .join('');
+    pattern = new RegExp(`^${source}$`);
+    templatePatterns.set(template, pattern);
+  }
+  return pattern;
+};
+
+/**
+ * Translates a validation message from the schemas
+ *
+ * Schemas and the services report errors in English; the catalogs map that
+ * text, including messages built from a field label or limit, to their own.
+ * Messages without a translation are shown as they are.
+ */
+export const translateValidationMessage = (message: string): string => {
+  const catalog = MESSAGES[getLocale()].validation;
+  if (catalog[message]) return catalog[message];
+
+  for (const [template, translation] of Object.entries(catalog)) {
+    if (!template.includes('{')) continue;
+    const match = toTemplatePattern(template).exec(message);
+    if (match) return interpolate(translation, match.groups ?? {});
+  }
+  return message;
+};
+
+export const getIntlLocale = (): string => localeOption.value.intl;
+
+export const formatDate = (
+  date: Date,
+  options: Intl.DateTimeFormatOptions = { dateStyle: 'medium' }
+): string => {
+  return date.toLocaleDateString(getIntlLocale(), options);
+};
+
+export const formatDateTime = (
+  date: Date,
+  options: Intl.DateTimeFormatOptions = { dateStyle: 'medium', timeStyle: 'short' }
+): string => {
+  return date.toLocaleString(getIntlLocale(), options);
+};
+
+export const formatNumber = (value: number, options?: Intl.NumberFormatOptions): string => {
+  return value.toLocaleString(getIntlLocale(), options);
+};
+
+/**
+ * `1 user` or `{count} users`, with the count formatted for the locale
+ */
+export const formatUserCount = (count: number): string => {
+  return count === 1
+    ? t('common.userCountOne')
+    : t('common.userCount', { count: formatNumber(count) });
+};
+
+const setLocale = (value: Locale) => {
+  locale.value = value;
+  try {
+    localStorage.setItem(STORAGE_KEY, value);
+  } catch {
+    // The choice still applies until the page is reloaded
+  }
+};
+
+/**
+ * Current language and the helpers translating and formatting for it
+ *
+ * The first caller starts mirroring the language and text direction onto
+ * the document, so the browser and right-to-left layouts follow it.
+ */
+export const useI18n = () => {
+  if (!syncing) {
+    syncing = true;
+    // Detached so the watcher outlives the component that happened to start it
+    effectScope(true).run(() =>
+      watch(
+        localeOption,
+        (option) => {
+          document.documentElement.lang = option.value;
+          document.documentElement.dir = option.dir;
+        },
+        { immediate: true }
+      )
+    );
+  }
+
+  return {
+    locale: computed(getLocale),
+    intlLocale: computed(() => localeOption.value.intl),
+    dir: computed(() => localeOption.value.dir),
+    setLocale,
+    t,
+    translateValidationMessage,
+    formatDate,
+    formatDateTime,
+    formatNumber,
+    formatUserCount,
+  };
+};
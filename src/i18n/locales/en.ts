@@ -0,0 +1,590 @@
+/**
+ * English messages; the other catalogs are checked against this shape
+ *
+ * `{name}` placeholders are filled in by `t`.
+ */
+export const en = {
+  app: {
+    title: 'G2G Assessment',
+    loading: 'Loading...',
+  },
+  language: {
+    label: 'Language',
+  },
+  common: {
+    cancel: 'Cancel',
+    optional: '{label} (Optional)',
+    yes: 'Yes',
+    no: 'No',
+    any: 'Any',
+    min: 'Min',
+    max: 'Max',
+    none: 'None',
+    retry: 'Retry',
+    tryAgain: 'Please try again or contact support if the problem persists.',
+    tryAgainLater: 'Please try again later.',
+    unexpectedError: 'An unexpected error occurred',
+    backToUsers: 'Back to users',
+    userCount: '{count} users',
+    userCountOne: '1 user',
+  },
+  errors: {
+    network: 'The server could not be reached. Check your connection and retry.',
+    permissionDenied: 'Your role does not allow this action. Ask an administrator for access.',
+    notFound: 'This user no longer exists. It may have been deleted by someone else.',
+    misconfigured:
+      'The database is missing an index for this list. Ask an administrator to deploy the Firestore indexes.',
+  },
+  auth: {
+    signIn: 'Sign in',
+    signingIn: 'Signing in...',
+    signInDescription: 'Sign in with your email and password to manage users.',
+    email: 'Email',
+    emailPlaceholder: 'Enter email address',
+    password: 'Password',
+    passwordPlaceholder: 'Enter password',
+    demoAccounts: 'Demo accounts (password "{password}")',
+    signOut: 'Sign out',
+    signOutFailed: 'Failed to sign out',
+    roles: {
+      viewer: 'Viewer',
+      editor: 'Editor',
+      admin: 'Admin',
+    },
+  },
+  genders: {
+    male: 'Male',
+    female: 'Female',
+  },
+  users: {
+    fields: 'Fields',
+    createNew: 'Create New User',
+    createDescription: 'Add a new user to the system. Fill in the required information below.',
+    edit: 'Edit User',
+    editDescription: 'Update user information. Modify the fields below and save your changes.',
+    loading: 'Loading users...',
+    noPermission: 'You do not have permission to view users',
+    empty: 'No users found',
+    noMatches: 'No users match your current filters',
+    deleteFailed: 'Failed to delete user',
+    movedToTrash: 'User moved to trash',
+    movedToTrashDescription: '{name} can be restored from the trash.',
+    undo: 'Undo',
+    restoreFailed: 'Failed to restore user',
+  },
+  user: {
+    select: 'Select {name}',
+    avatar: "{name}'s avatar",
+    born: 'Born {date}',
+    joined: 'Joined {date}',
+    edit: 'Edit',
+    history: 'History',
+    delete: 'Delete',
+    saving: 'Saving...',
+    pendingSync: 'Pending sync',
+    pendingSyncHint: 'Saved on this device and synced once the connection returns',
+  },
+  userForm: {
+    name: 'Name',
+    namePlaceholder: 'Enter full name',
+    email: 'Email',
+    emailPlaceholder: 'Enter email address',
+    dateOfBirth: 'Date of Birth',
+    pickDate: 'Pick a date',
+    gender: 'Gender',
+    genderPlaceholder: 'Select gender',
+    profilePicture: 'Profile Picture',
+    selectOption: 'Select {label}',
+    enterValue: 'Enter {label}',
+    create: 'Create User',
+    update: 'Update User',
+    creating: 'Creating...',
+    updating: 'Updating...',
+    uploadFailed: 'Failed to upload profile picture',
+    notFound: 'User no longer exists',
+    notFoundDescription: 'It was deleted by someone else, so your changes could not be saved.',
+    created: 'User created successfully!',
+    createdDescription: '{name} has been added to the system.',
+    updated: 'User updated successfully!',
+    updatedDescription: '{name} has been updated.',
+    createFailed: 'Failed to create user',
+    updateFailed: 'Failed to update user',
+  },
+  controls: {
+    title: 'User Controls',
+    views: {
+      list: 'List',
+      grid: 'Grid',
+      table: 'Table',
+    },
+    search: 'Search by name or email',
+    searchLabel: 'Search users by name or email',
+    clearSearch: 'Clear search',
+    sortBy: 'Sort By',
+    sortOrder: 'Sort Order',
+    sortFields: {
+      name: 'Name',
+      email: 'Email',
+      dateOfBirth: 'Date of Birth',
+      gender: 'Gender',
+      profilePicture: 'Profile Picture',
+      createdAt: 'Created At',
+      updatedAt: 'Updated At',
+    },
+    sortOrders: {
+      asc: 'Ascending',
+      desc: 'Descending',
+    },
+    filterBy: 'Filter by {label}',
+    filterByGender: 'Filter by Gender',
+    allGenders: 'All Genders',
+    filterByProfilePicture: 'Filter by Profile Picture',
+    profilePictures: {
+      all: 'All Users',
+      with: 'With Profile Picture',
+      without: 'Without Profile Picture',
+    },
+    filterByDateOfBirth: 'Filter by Date of Birth',
+    dateOfBirthPlaceholder: 'Select date of birth range',
+    filterByAge: 'Filter by Age',
+    minAge: 'Minimum age',
+    maxAge: 'Maximum age',
+    filterByCreatedAt: 'Filter by Created Date',
+    createdAtPlaceholder: 'Select created date range',
+    filterByUpdatedAt: 'Filter by Updated Date',
+    updatedAtPlaceholder: 'Select updated date range',
+    activeFilters: 'Active filters:',
+    badges: {
+      search: 'Search: "{query}"',
+      gender: 'Gender: {value}',
+      profilePicture: 'Profile Picture: {value}',
+      dateOfBirth: 'DOB: {range}',
+      age: 'Age: {range}',
+      createdAt: 'Created: {range}',
+      updatedAt: 'Updated: {range}',
+    },
+  },
+  savedViews: {
+    title: 'Views',
+    loading: 'Loading views...',
+    loadFailed: 'Views could not be loaded',
+    empty: 'No saved views yet',
+    private: 'Private',
+    shared: 'Shared with the team',
+    sharedBy: 'Shared by {name}',
+    matches: '{count} matching loaded users',
+    setDefault: 'Open the list with this view',
+    unsetDefault: 'Stop opening the list with this view',
+    overwrite: 'Replace with the current view',
+    delete: 'Delete view',
+    saveCurrent: 'Save current view',
+    saveTitle: 'Save View',
+    saveDescription: 'Saves the current view mode, sorting and filters under a name.',
+    name: 'Name',
+    namePlaceholder: 'e.g. Recent sign-ups',
+    share: 'Share with the team',
+    shareDescription: 'Everyone can apply shared views; only you can change them.',
+    makeDefault: 'Open the list with this view',
+    saving: 'Saving...',
+    saveButton: 'Save View',
+    saved: 'View saved',
+    savedDescription: '{name} has been added to your views.',
+    updated: 'View updated',
+    updatedDescription: '{name} now shows the current view.',
+    deleted: 'View deleted',
+    deletedDescription: '{name} has been removed.',
+    saveFailed: 'Failed to save view',
+    updateFailed: 'Failed to update view',
+    deleteFailed: 'Failed to delete view',
+    defaultFailed: 'Failed to set default view',
+  },
+  customFieldFilter: {
+    contains: 'Contains...',
+    minimum: 'Minimum {label}',
+    maximum: 'Maximum {label}',
+  },
+  dateRange: {
+    placeholder: 'Select date range',
+    from: 'From',
+    to: 'To',
+    clear: 'Clear',
+    fromOnly: 'From {date}',
+    untilOnly: 'Until {date}',
+    ageBetween: '{min}–{max} years',
+    ageFrom: '{min}+ years',
+    ageUpTo: 'Up to {max} years',
+    presets: {
+      today: 'Today',
+      last7Days: 'Last 7 days',
+      last30Days: 'Last 30 days',
+      thisMonth: 'This month',
+      lastMonth: 'Last month',
+      thisYear: 'This year',
+    },
+  },
+  analytics: {
+    nav: 'Analytics',
+    backToUsers: 'Back to users',
+    title: 'Analytics',
+    description: 'Select a segment to filter the users by it; select it again to clear it.',
+    applyFilters: 'Apply current filters',
+    clearFilters: 'Clear filters',
+    summary: '{shown} of {total} loaded users',
+    empty: 'No users to show',
+    segmentLabel: '{label}: {count} users',
+    charts: {
+      gender: 'Gender',
+      profilePicture: 'Profile picture',
+      age: 'Age',
+      ageDescription: 'Users by age band',
+      signups: 'Sign-ups',
+      signupsDescription: 'Users created per week, last 12 weeks',
+      updates: 'Last updated',
+      recentlyUpdated: 'Recently updated',
+    },
+    segments: {
+      withPicture: 'With picture',
+      withoutPicture: 'Without picture',
+      updatedToday: 'Today',
+      updatedThisWeek: '1–6 days ago',
+      updatedThisMonth: '7–29 days ago',
+      updatedOlder: '30+ days ago',
+    },
+  },
+  notFound: {
+    title: 'Page not found',
+    description: 'The page you are looking for does not exist or has been moved.',
+  },
+  network: {
+    offline:
+      'You are offline. Users saved on this device are shown and changes are synced when the connection returns.',
+    waiting: '{users} waiting to sync.',
+    syncing: 'Syncing {users}...',
+  },
+  loadMore: {
+    loading: 'Loading more users...',
+    button: 'Load more',
+    loaded: '{count} users loaded',
+    loadedAll: '{count} users loaded (all)',
+  },
+  table: {
+    selectedRows: '{selected} of {total} row(s) selected',
+    multiSortHint: 'Shift+click a header to sort by several columns',
+    columns: 'Columns',
+    selectAll: 'Select all',
+    sortBy: 'Sort by {label}',
+    resize: 'Resize {label} column',
+    actions: 'Actions',
+    saving: 'Saving',
+    edit: 'Edit {name}',
+    history: 'History of {name}',
+    delete: 'Delete {name}',
+    empty: 'No users',
+    headers: {
+      name: 'Name',
+      email: 'Email',
+      gender: 'Gender',
+      dateOfBirth: 'Date of Birth',
+      profilePicture: 'Picture',
+      createdAt: 'Created',
+      updatedAt: 'Updated',
+    },
+  },
+  userDetail: {
+    notFound: 'User not found',
+    notFoundDescription: 'This user does not exist or has been deleted.',
+    loading: 'Loading user...',
+    noPermission: 'You do not have permission to view this user',
+    email: 'Email',
+    dateOfBirth: 'Date of birth',
+    age: '({age} years old)',
+    joined: 'Joined',
+    lastUpdated: 'Last updated',
+    userId: 'User ID',
+  },
+  profilePicture: {
+    dropHint: 'Drag and drop an image, or',
+    browse: 'browse',
+    types: 'JPEG, PNG, WebP or GIF up to 10 MB',
+    dragToReposition: 'Drag to reposition',
+    current: 'Current profile picture',
+    zoom: 'Zoom',
+    previewHint: 'Drag the preview to reposition. The picture is uploaded when you save.',
+    remove: 'Remove',
+  },
+  bulkActions: {
+    selected: '{users} selected',
+    selectAll: 'Select all {count}',
+    clear: 'Clear',
+    edit: 'Edit',
+    field: 'Field',
+    fields: {
+      gender: 'Gender',
+      profilePicture: 'Profile picture',
+    },
+    newValue: 'New value',
+    newUrl: 'New URL',
+    newUrlPlaceholder: 'Leave empty to remove the picture',
+    invalidUrl: 'Invalid URL',
+    apply: 'Apply to {users}',
+    exportSelected: 'Export selected',
+    delete: 'Delete',
+    confirmDelete: 'Are you sure you want to delete {users}?',
+    restoreFailed: 'Failed to restore some users',
+    restoreFailedDescription: 'They can still be restored from the trash.',
+    deleteResult: {
+      failed: 'Failed to delete users',
+      succeeded: 'Users deleted successfully!',
+      succeededDescription: '{users} deleted.',
+      allFailedDescription: '{users} could not be deleted: {reasons}',
+      partial: 'Bulk delete finished with errors',
+      partialDescription: '{users} deleted, {failed} failed: {reasons}',
+    },
+    updateResult: {
+      failed: 'Failed to update users',
+      succeeded: 'Users updated successfully!',
+      succeededDescription: '{users} updated.',
+      allFailedDescription: '{users} could not be updated: {reasons}',
+      partial: 'Bulk update finished with errors',
+      partialDescription: '{users} updated, {failed} failed: {reasons}',
+    },
+  },
+  importDialog: {
+    trigger: 'Import CSV',
+    title: 'Import Users',
+    description:
+      'Upload a CSV file using the same columns as the export. Rows with an ID matching an existing user update that user; all other valid rows create new users.',
+    readFailed: 'Failed to read file',
+    readFailedDescription: 'Make sure the file is a valid CSV export.',
+    importFailed: 'Failed to import users',
+    summary: '{created} created, {updated} updated',
+    finishedWithErrors: 'Import finished with errors',
+    finishedWithErrorsDescription: '{summary}, {failed} failed (rows {rows}).',
+    imported: 'Users imported successfully!',
+    importedDescription: '{summary}.',
+    valid: '{count} valid',
+    withErrors: '{count} with errors',
+    columns: {
+      row: 'Row',
+      name: 'Name',
+      email: 'Email',
+      dateOfBirth: 'Date of Birth',
+      gender: 'Gender',
+      action: 'Action',
+      issues: 'Issues',
+    },
+    actions: {
+      skip: 'Skip',
+      update: 'Update',
+      create: 'Create',
+    },
+    importing: 'Importing...',
+    importButton: 'Import {count} Users',
+  },
+  exportDialog: {
+    trigger: 'Export',
+    title: 'Export Users',
+    description:
+      'Choose what to export and how. PDF opens the print dialog, where you can save the table as a PDF.',
+    format: 'Format',
+    includeBom: 'Add a UTF-8 byte order mark so Excel shows accented names correctly',
+    users: 'Users',
+    scopes: {
+      filtered: 'Filtered users',
+      filteredDetail: '{count} matching the current filters',
+      all: 'All users',
+      allNotLoaded: 'Including users that are not loaded yet',
+      selected: 'Selected users',
+      selectedDetail: '{count} selected',
+    },
+    dates: 'Dates',
+    dateFormats: {
+      date: 'Date',
+      datetime: 'Date and time',
+      iso: 'ISO 8601',
+      locale: 'Readable',
+    },
+    timeZone: 'Time zone',
+    thisDevice: '{timeZone} (this device)',
+    timeZoneHint:
+      'The time zone applies to created and updated times; dates of birth are exported as they are.',
+    columns: 'Columns',
+    reset: 'Reset',
+    moveUp: 'Move {label} up',
+    moveDown: 'Move {label} down',
+    columnLabels: {
+      name: 'Name',
+      email: 'Email',
+      dateOfBirth: 'Date of Birth',
+      age: 'Age',
+      gender: 'Gender',
+      profilePicture: 'Profile Picture',
+      createdAt: 'Created At',
+      updatedAt: 'Updated At',
+      id: 'ID',
+    },
+    nothing: 'Nothing to export',
+    nothingDescription: 'There are no users in this selection.',
+    failed: 'Failed to export users',
+    exporting: 'Exporting...',
+    export: 'Export',
+  },
+  trash: {
+    trigger: 'Trash',
+    title: 'Trash',
+    description: 'Deleted users are kept here until they are restored or permanently deleted.',
+    loading: 'Loading deleted users...',
+    columns: {
+      name: 'Name',
+      email: 'Email',
+      deleted: 'Deleted',
+      actions: 'Actions',
+    },
+    restore: 'Restore',
+    deleteForever: 'Delete forever',
+    empty: 'The trash is empty',
+    loadFailed: 'Failed to load the trash',
+    restored: 'User restored successfully!',
+    restoredDescription: '{name} is back in the user list.',
+    confirmPurge: 'Permanently delete {name}? This cannot be undone.',
+    purged: 'User permanently deleted',
+    purgedDescription: '{name} has been removed for good.',
+  },
+  duplicates: {
+    trigger: 'Duplicates',
+    title: 'Duplicates',
+    description: 'Users that share an email, or have a similar name and the same date of birth.',
+    loading: 'Looking for duplicates...',
+    empty: 'No likely duplicates found',
+    reasons: {
+      email: 'Same email',
+      nameAndDateOfBirth: 'Similar name and same date of birth',
+    },
+    merge: 'Merge',
+    created: 'Created {date}',
+    findFailed: 'Failed to look for duplicates',
+    mergeFailed: 'Failed to merge users',
+    mergedWithErrors: 'Users merged with errors',
+    mergedWithErrorsDescription:
+      '{name} was updated, but {count} duplicate(s) could not be moved to the trash.',
+    merged: 'Users merged successfully!',
+    mergedDescription: '{name} was updated and the duplicates were moved to the trash.',
+  },
+  merge: {
+    title: 'Merge users',
+    description:
+      'Pick the value to keep for each field. The user whose email you keep is updated and the others are moved to the trash.',
+    field: 'Field',
+    record: 'Record {number}',
+    created: 'Created {date}',
+    fields: {
+      name: 'Name',
+      email: 'Email',
+      dateOfBirth: 'Date of birth',
+      gender: 'Gender',
+      profilePicture: 'Profile picture',
+    },
+    keptOne: 'is kept; 1 other record is moved to the trash.',
+    keptOther: 'is kept; {count} other records are moved to the trash.',
+    merging: 'Merging...',
+    mergeButton: 'Merge {count} users',
+  },
+  history: {
+    title: 'History',
+    description: 'Every change made to {name}, newest first.',
+    thisUser: 'this user',
+    loading: 'Loading history...',
+    empty: 'No changes have been recorded yet',
+    actions: {
+      create: 'Created',
+      update: 'Updated',
+      delete: 'Deleted',
+      restore: 'Restored',
+    },
+    by: 'by {name}',
+    unknownActor: 'an unknown user',
+    revert: 'Revert to this version',
+    confirmRevert: 'Revert {name} to the version from {date}?',
+    reverted: 'User reverted successfully!',
+    revertedDescription: '{name} has been restored to the version from {date}.',
+    revertFailed: 'Failed to revert user',
+    fields: {
+      name: 'Name',
+      email: 'Email',
+      dateOfBirth: 'Date of birth',
+      gender: 'Gender',
+      profilePicture: 'Profile picture',
+      deletedAt: 'Deleted at',
+    },
+  },
+  fieldSettings: {
+    add: 'Add Field',
+    title: 'User fields',
+    description: 'Extra fields shown on every user, in the form, list, filters and exports.',
+    noPermission: 'You do not have permission to manage user fields',
+    loading: 'Loading fields...',
+    columns: {
+      label: 'Label',
+      key: 'Key',
+      type: 'Type',
+      required: 'Required',
+      actions: 'Actions',
+    },
+    optionCount: '({count} options)',
+    moveUp: 'Move {label} up',
+    moveDown: 'Move {label} down',
+    edit: 'Edit',
+    delete: 'Delete',
+    empty: 'No custom fields yet',
+    editTitle: 'Edit Field',
+    addTitle: 'Add Field',
+    editDescription: 'Changes apply to the user form, list, filters and exports right away.',
+    addDescription: 'The field is added to every user and can be filled in from the user form.',
+    reorderFailed: 'Failed to reorder fields',
+    confirmDelete: 'Delete the {label} field? It will no longer be shown on users.',
+    deleted: 'Field deleted',
+    deletedDescription: '{label} has been removed from the user form and list.',
+    deleteFailed: 'Failed to delete field',
+    types: {
+      text: 'Text',
+      number: 'Number',
+      date: 'Date',
+      select: 'Dropdown',
+      boolean: 'Yes / No',
+    },
+  },
+  customFieldForm: {
+    label: 'Label',
+    labelPlaceholder: 'e.g. Department',
+    key: 'Key',
+    keyPlaceholder: 'e.g. department',
+    keyDescription: 'Identifies the field in stored data and cannot be changed later.',
+    type: 'Type',
+    typePlaceholder: 'Select type',
+    typeDescription: 'Existing values are kept as they are when the type changes.',
+    options: 'Options',
+    optionsPlaceholder: 'One option per line',
+    minLength: 'Min length',
+    maxLength: 'Max length',
+    minimum: 'Minimum',
+    maximum: 'Maximum',
+    pattern: 'Pattern',
+    patternDescription: 'A regular expression the whole value must match.',
+    required: 'Required',
+    create: 'Create Field',
+    update: 'Update Field',
+    creating: 'Creating...',
+    updating: 'Updating...',
+    created: 'Field created successfully!',
+    createdDescription: '{label} has been added to every user.',
+    updated: 'Field updated successfully!',
+    updatedDescription: '{label} has been updated.',
+    createFailed: 'Failed to create field',
+    updateFailed: 'Failed to update field',
+  },
+  // Validation messages are written in English in the schemas, so other
+  // catalogs map them by their English text; see `translateValidationMessage`
+  validation: {} as Record<string, string>,
+};
+
+export type Messages = typeof en;
@@ -0,0 +1,645 @@
+import type { Messages } from './en';
+
+/**
+ * Bahasa Melayu messages
+ */
+export const ms: Messages = {
+  app: {
+    title: 'G2G Assessment',
+    loading: 'Memuatkan...',
+  },
+  language: {
+    label: 'Bahasa',
+  },
+  common: {
+    cancel: 'Batal',
+    optional: '{label} (Pilihan)',
+    yes: 'Ya',
+    no: 'Tidak',
+    any: 'Semua',
+    min: 'Min',
+    max: 'Maks',
+    none: 'Tiada',
+    retry: 'Cuba lagi',
+    tryAgain: 'Sila cuba lagi atau hubungi sokongan jika masalah berterusan.',
+    tryAgainLater: 'Sila cuba lagi kemudian.',
+    unexpectedError: 'Ralat yang tidak dijangka berlaku',
+    backToUsers: 'Kembali ke pengguna',
+    userCount: '{count} pengguna',
+    userCountOne: '1 pengguna',
+  },
+  errors: {
+    network: 'Pelayan tidak dapat dihubungi. Semak sambungan anda dan cuba lagi.',
+    permissionDenied:
+      'Peranan anda tidak membenarkan tindakan ini. Minta akses daripada pentadbir.',
+    notFound: 'Pengguna ini tidak lagi wujud. Ia mungkin telah dipadam oleh orang lain.',
+    misconfigured:
+      'Pangkalan data tiada indeks untuk senarai ini. Minta pentadbir menggunakan indeks Firestore.',
+  },
+  auth: {
+    signIn: 'Log masuk',
+    signingIn: 'Sedang log masuk...',
+    signInDescription: 'Log masuk dengan e-mel dan kata laluan anda untuk mengurus pengguna.',
+    email: 'E-mel',
+    emailPlaceholder: 'Masukkan alamat e-mel',
+    password: 'Kata laluan',
+    passwordPlaceholder: 'Masukkan kata laluan',
+    demoAccounts: 'Akaun demo (kata laluan "{password}")',
+    signOut: 'Log keluar',
+    signOutFailed: 'Gagal log keluar',
+    roles: {
+      viewer: 'Pemerhati',
+      editor: 'Penyunting',
+      admin: 'Pentadbir',
+    },
+  },
+  genders: {
+    male: 'Lelaki',
+    female: 'Perempuan',
+  },
+  users: {
+    fields: 'Medan',
+    createNew: 'Cipta Pengguna Baharu',
+    createDescription:
+      'Tambah pengguna baharu ke dalam sistem. Isi maklumat yang diperlukan di bawah.',
+    edit: 'Sunting Pengguna',
+    editDescription: 'Kemas kini maklumat pengguna. Ubah medan di bawah dan simpan perubahan anda.',
+    loading: 'Memuatkan pengguna...',
+    noPermission: 'Anda tidak mempunyai kebenaran untuk melihat pengguna',
+    empty: 'Tiada pengguna ditemui',
+    noMatches: 'Tiada pengguna sepadan dengan penapis semasa anda',
+    deleteFailed: 'Gagal memadam pengguna',
+    movedToTrash: 'Pengguna dipindahkan ke tong sampah',
+    movedToTrashDescription: '{name} boleh dipulihkan dari tong sampah.',
+    undo: 'Buat asal',
+    restoreFailed: 'Gagal memulihkan pengguna',
+  },
+  user: {
+    select: 'Pilih {name}',
+    avatar: 'Avatar {name}',
+    born: 'Lahir {date}',
+    joined: 'Menyertai {date}',
+    edit: 'Sunting',
+    history: 'Sejarah',
+    delete: 'Padam',
+    saving: 'Menyimpan...',
+    pendingSync: 'Menunggu segerak',
+    pendingSyncHint: 'Disimpan pada peranti ini dan disegerakkan apabila sambungan pulih',
+  },
+  userForm: {
+    name: 'Nama',
+    namePlaceholder: 'Masukkan nama penuh',
+    email: 'E-mel',
+    emailPlaceholder: 'Masukkan alamat e-mel',
+    dateOfBirth: 'Tarikh Lahir',
+    pickDate: 'Pilih tarikh',
+    gender: 'Jantina',
+    genderPlaceholder: 'Pilih jantina',
+    profilePicture: 'Gambar Profil',
+    selectOption: 'Pilih {label}',
+    enterValue: 'Masukkan {label}',
+    create: 'Cipta Pengguna',
+    update: 'Kemas Kini Pengguna',
+    creating: 'Sedang mencipta...',
+    updating: 'Sedang mengemas kini...',
+    uploadFailed: 'Gagal memuat naik gambar profil',
+    notFound: 'Pengguna tidak lagi wujud',
+    notFoundDescription:
+      'Ia telah dipadam oleh orang lain, jadi perubahan anda tidak dapat disimpan.',
+    created: 'Pengguna berjaya dicipta!',
+    createdDescription: '{name} telah ditambah ke dalam sistem.',
+    updated: 'Pengguna berjaya dikemas kini!',
+    updatedDescription: '{name} telah dikemas kini.',
+    createFailed: 'Gagal mencipta pengguna',
+    updateFailed: 'Gagal mengemas kini pengguna',
+  },
+  controls: {
+    title: 'Kawalan Pengguna',
+    views: {
+      list: 'Senarai',
+      grid: 'Grid',
+      table: 'Jadual',
+    },
+    search: 'Cari mengikut nama atau e-mel',
+    searchLabel: 'Cari pengguna mengikut nama atau e-mel',
+    clearSearch: 'Kosongkan carian',
+    sortBy: 'Isih Mengikut',
+    sortOrder: 'Susunan',
+    sortFields: {
+      name: 'Nama',
+      email: 'E-mel',
+      dateOfBirth: 'Tarikh Lahir',
+      gender: 'Jantina',
+      profilePicture: 'Gambar Profil',
+      createdAt: 'Tarikh Dicipta',
+      updatedAt: 'Tarikh Dikemas Kini',
+    },
+    sortOrders: {
+      asc: 'Menaik',
+      desc: 'Menurun',
+    },
+    filterBy: 'Tapis mengikut {label}',
+    filterByGender: 'Tapis mengikut Jantina',
+    allGenders: 'Semua Jantina',
+    filterByProfilePicture: 'Tapis mengikut Gambar Profil',
+    profilePictures: {
+      all: 'Semua Pengguna',
+      with: 'Dengan Gambar Profil',
+      without: 'Tanpa Gambar Profil',
+    },
+    filterByDateOfBirth: 'Tapis mengikut Tarikh Lahir',
+    dateOfBirthPlaceholder: 'Pilih julat tarikh lahir',
+    filterByAge: 'Tapis mengikut Umur',
+    minAge: 'Umur minimum',
+    maxAge: 'Umur maksimum',
+    filterByCreatedAt: 'Tapis mengikut Tarikh Dicipta',
+    createdAtPlaceholder: 'Pilih julat tarikh dicipta',
+    filterByUpdatedAt: 'Tapis mengikut Tarikh Dikemas Kini',
+    updatedAtPlaceholder: 'Pilih julat tarikh dikemas kini',
+    activeFilters: 'Penapis aktif:',
+    badges: {
+      search: 'Carian: "{query}"',
+      gender: 'Jantina: {value}',
+      profilePicture: 'Gambar Profil: {value}',
+      dateOfBirth: 'Tarikh lahir: {range}',
+      age: 'Umur: {range}',
+      createdAt: 'Dicipta: {range}',
+      updatedAt: 'Dikemas kini: {range}',
+    },
+  },
+  savedViews: {
+    title: 'Paparan',
+    loading: 'Memuatkan paparan...',
+    loadFailed: 'Paparan tidak dapat dimuatkan',
+    empty: 'Belum ada paparan disimpan',
+    private: 'Peribadi',
+    shared: 'Dikongsi dengan pasukan',
+    sharedBy: 'Dikongsi oleh {name}',
+    matches: '{count} pengguna dimuatkan yang sepadan',
+    setDefault: 'Buka senarai dengan paparan ini',
+    unsetDefault: 'Berhenti membuka senarai dengan paparan ini',
+    overwrite: 'Gantikan dengan paparan semasa',
+    delete: 'Padam paparan',
+    saveCurrent: 'Simpan paparan semasa',
+    saveTitle: 'Simpan Paparan',
+    saveDescription: 'Menyimpan mod paparan, susunan dan penapis semasa di bawah satu nama.',
+    name: 'Nama',
+    namePlaceholder: 'cth. Pendaftaran terkini',
+    share: 'Kongsi dengan pasukan',
+    shareDescription:
+      'Semua orang boleh menggunakan paparan dikongsi; hanya anda boleh mengubahnya.',
+    makeDefault: 'Buka senarai dengan paparan ini',
+    saving: 'Menyimpan...',
+    saveButton: 'Simpan Paparan',
+    saved: 'Paparan disimpan',
+    savedDescription: '{name} telah ditambah ke paparan anda.',
+    updated: 'Paparan dikemas kini',
+    updatedDescription: '{name} kini menunjukkan paparan semasa.',
+    deleted: 'Paparan dipadam',
+    deletedDescription: '{name} telah dialih keluar.',
+    saveFailed: 'Gagal menyimpan paparan',
+    updateFailed: 'Gagal mengemas kini paparan',
+    deleteFailed: 'Gagal memadam paparan',
+    defaultFailed: 'Gagal menetapkan paparan lalai',
+  },
+  customFieldFilter: {
+    contains: 'Mengandungi...',
+    minimum: '{label} minimum',
+    maximum: '{label} maksimum',
+  },
+  dateRange: {
+    placeholder: 'Pilih julat tarikh',
+    from: 'Dari',
+    to: 'Hingga',
+    clear: 'Kosongkan',
+    fromOnly: 'Dari {date}',
+    untilOnly: 'Hingga {date}',
+    ageBetween: '{min}–{max} tahun',
+    ageFrom: '{min} tahun ke atas',
+    ageUpTo: 'Sehingga {max} tahun',
+    presets: {
+      today: 'Hari ini',
+      last7Days: '7 hari lepas',
+      last30Days: '30 hari lepas',
+      thisMonth: 'Bulan ini',
+      lastMonth: 'Bulan lepas',
+      thisYear: 'Tahun ini',
+    },
+  },
+  analytics: {
+    nav: 'Analitik',
+    backToUsers: 'Kembali ke pengguna',
+    title: 'Analitik',
+    description:
+      'Pilih segmen untuk menapis pengguna mengikutnya; pilih sekali lagi untuk mengosongkannya.',
+    applyFilters: 'Guna penapis semasa',
+    clearFilters: 'Kosongkan penapis',
+    summary: '{shown} daripada {total} pengguna dimuatkan',
+    empty: 'Tiada pengguna untuk dipaparkan',
+    segmentLabel: '{label}: {count} pengguna',
+    charts: {
+      gender: 'Jantina',
+      profilePicture: 'Gambar profil',
+      age: 'Umur',
+      ageDescription: 'Pengguna mengikut kumpulan umur',
+      signups: 'Pendaftaran',
+      signupsDescription: 'Pengguna dicipta setiap minggu, 12 minggu lepas',
+      updates: 'Kemas kini terakhir',
+      recentlyUpdated: 'Dikemas kini baru-baru ini',
+    },
+    segments: {
+      withPicture: 'Dengan gambar',
+      withoutPicture: 'Tanpa gambar',
+      updatedToday: 'Hari ini',
+      updatedThisWeek: '1–6 hari lepas',
+      updatedThisMonth: '7–29 hari lepas',
+      updatedOlder: '30 hari lepas atau lebih',
+    },
+  },
+  notFound: {
+    title: 'Halaman tidak ditemui',
+    description: 'Halaman yang anda cari tidak wujud atau telah dipindahkan.',
+  },
+  network: {
+    offline:
+      'Anda di luar talian. Pengguna yang disimpan pada peranti ini dipaparkan dan perubahan disegerakkan apabila sambungan pulih.',
+    waiting: '{users} menunggu untuk disegerakkan.',
+    syncing: 'Menyegerakkan {users}...',
+  },
+  loadMore: {
+    loading: 'Memuatkan lebih banyak pengguna...',
+    button: 'Muat lagi',
+    loaded: '{count} pengguna dimuatkan',
+    loadedAll: '{count} pengguna dimuatkan (semua)',
+  },
+  table: {
+    selectedRows: '{selected} daripada {total} baris dipilih',
+    multiSortHint: 'Shift+klik pengepala untuk mengisih mengikut beberapa lajur',
+    columns: 'Lajur',
+    selectAll: 'Pilih semua',
+    sortBy: 'Isih mengikut {label}',
+    resize: 'Ubah saiz lajur {label}',
+    actions: 'Tindakan',
+    saving: 'Menyimpan',
+    edit: 'Sunting {name}',
+    history: 'Sejarah {name}',
+    delete: 'Padam {name}',
+    empty: 'Tiada pengguna',
+    headers: {
+      name: 'Nama',
+      email: 'E-mel',
+      gender: 'Jantina',
+      dateOfBirth: 'Tarikh Lahir',
+      profilePicture: 'Gambar',
+      createdAt: 'Dicipta',
+      updatedAt: 'Dikemas kini',
+    },
+  },
+  userDetail: {
+    notFound: 'Pengguna tidak ditemui',
+    notFoundDescription: 'Pengguna ini tidak wujud atau telah dipadam.',
+    loading: 'Memuatkan pengguna...',
+    noPermission: 'Anda tidak mempunyai kebenaran untuk melihat pengguna ini',
+    email: 'E-mel',
+    dateOfBirth: 'Tarikh lahir',
+    age: '({age} tahun)',
+    joined: 'Menyertai',
+    lastUpdated: 'Kemas kini terakhir',
+    userId: 'ID Pengguna',
+  },
+  profilePicture: {
+    dropHint: 'Seret dan lepas imej, atau',
+    browse: 'semak imbas',
+    types: 'JPEG, PNG, WebP atau GIF sehingga 10 MB',
+    dragToReposition: 'Seret untuk mengubah kedudukan',
+    current: 'Gambar profil semasa',
+    zoom: 'Zum',
+    previewHint:
+      'Seret pratonton untuk mengubah kedudukan. Gambar dimuat naik apabila anda menyimpan.',
+    remove: 'Buang',
+  },
+  bulkActions: {
+    selected: '{users} dipilih',
+    selectAll: 'Pilih kesemua {count}',
+    clear: 'Kosongkan',
+    edit: 'Sunting',
+    field: 'Medan',
+    fields: {
+      gender: 'Jantina',
+      profilePicture: 'Gambar profil',
+    },
+    newValue: 'Nilai baharu',
+    newUrl: 'URL baharu',
+    newUrlPlaceholder: 'Biarkan kosong untuk membuang gambar',
+    invalidUrl: 'URL tidak sah',
+    apply: 'Guna pada {users}',
+    exportSelected: 'Eksport yang dipilih',
+    delete: 'Padam',
+    confirmDelete: 'Adakah anda pasti mahu memadam {users}?',
+    restoreFailed: 'Gagal memulihkan sebahagian pengguna',
+    restoreFailedDescription: 'Mereka masih boleh dipulihkan dari tong sampah.',
+    deleteResult: {
+      failed: 'Gagal memadam pengguna',
+      succeeded: 'Pengguna berjaya dipadam!',
+      succeededDescription: '{users} dipadam.',
+      allFailedDescription: '{users} tidak dapat dipadam: {reasons}',
+      partial: 'Pemadaman pukal selesai dengan ralat',
+      partialDescription: '{users} dipadam, {failed} gagal: {reasons}',
+    },
+    updateResult: {
+      failed: 'Gagal mengemas kini pengguna',
+      succeeded: 'Pengguna berjaya dikemas kini!',
+      succeededDescription: '{users} dikemas kini.',
+      allFailedDescription: '{users} tidak dapat dikemas kini: {reasons}',
+      partial: 'Kemas kini pukal selesai dengan ralat',
+      partialDescription: '{users} dikemas kini, {failed} gagal: {reasons}',
+    },
+  },
+  importDialog: {
+    trigger: 'Import CSV',
+    title: 'Import Pengguna',
+    description:
+      'Muat naik fail CSV dengan lajur yang sama seperti eksport. Baris dengan ID yang sepadan dengan pengguna sedia ada mengemas kini pengguna itu; semua baris sah yang lain mencipta pengguna baharu.',
+    readFailed: 'Gagal membaca fail',
+    readFailedDescription: 'Pastikan fail ialah eksport CSV yang sah.',
+    importFailed: 'Gagal mengimport pengguna',
+    summary: '{created} dicipta, {updated} dikemas kini',
+    finishedWithErrors: 'Import selesai dengan ralat',
+    finishedWithErrorsDescription: '{summary}, {failed} gagal (baris {rows}).',
+    imported: 'Pengguna berjaya diimport!',
+    importedDescription: '{summary}.',
+    valid: '{count} sah',
+    withErrors: '{count} dengan ralat',
+    columns: {
+      row: 'Baris',
+      name: 'Nama',
+      email: 'E-mel',
+      dateOfBirth: 'Tarikh Lahir',
+      gender: 'Jantina',
+      action: 'Tindakan',
+      issues: 'Isu',
+    },
+    actions: {
+      skip: 'Langkau',
+      update: 'Kemas kini',
+      create: 'Cipta',
+    },
+    importing: 'Sedang mengimport...',
+    importButton: 'Import {count} Pengguna',
+  },
+  exportDialog: {
+    trigger: 'Eksport',
+    title: 'Eksport Pengguna',
+    description:
+      'Pilih apa yang hendak dieksport dan caranya. PDF membuka dialog cetak, di mana anda boleh menyimpan jadual sebagai PDF.',
+    format: 'Format',
+    includeBom: 'Tambah tanda tertib bait UTF-8 supaya Excel memaparkan nama beraksen dengan betul',
+    users: 'Pengguna',
+    scopes: {
+      filtered: 'Pengguna yang ditapis',
+      filteredDetail: '{count} sepadan dengan penapis semasa',
+      all: 'Semua pengguna',
+      allNotLoaded: 'Termasuk pengguna yang belum dimuatkan',
+      selected: 'Pengguna yang dipilih',
+      selectedDetail: '{count} dipilih',
+    },
+    dates: 'Tarikh',
+    dateFormats: {
+      date: 'Tarikh',
+      datetime: 'Tarikh dan masa',
+      iso: 'ISO 8601',
+      locale: 'Mudah dibaca',
+    },
+    timeZone: 'Zon waktu',
+    thisDevice: '{timeZone} (peranti ini)',
+    timeZoneHint:
+      'Zon waktu digunakan pada masa dicipta dan dikemas kini; tarikh lahir dieksport sebagaimana adanya.',
+    columns: 'Lajur',
+    reset: 'Set semula',
+    moveUp: 'Alih {label} ke atas',
+    moveDown: 'Alih {label} ke bawah',
+    columnLabels: {
+      name: 'Nama',
+      email: 'E-mel',
+      dateOfBirth: 'Tarikh Lahir',
+      age: 'Umur',
+      gender: 'Jantina',
+      profilePicture: 'Gambar Profil',
+      createdAt: 'Dicipta Pada',
+      updatedAt: 'Dikemas Kini Pada',
+      id: 'ID',
+    },
+    nothing: 'Tiada apa untuk dieksport',
+    nothingDescription: 'Tiada pengguna dalam pilihan ini.',
+    failed: 'Gagal mengeksport pengguna',
+    exporting: 'Sedang mengeksport...',
+    export: 'Eksport',
+  },
+  trash: {
+    trigger: 'Tong Sampah',
+    title: 'Tong Sampah',
+    description:
+      'Pengguna yang dipadam disimpan di sini sehingga mereka dipulihkan atau dipadam secara kekal.',
+    loading: 'Memuatkan pengguna yang dipadam...',
+    columns: {
+      name: 'Nama',
+      email: 'E-mel',
+      deleted: 'Dipadam',
+      actions: 'Tindakan',
+    },
+    restore: 'Pulihkan',
+    deleteForever: 'Padam selamanya',
+    empty: 'Tong sampah kosong',
+    loadFailed: 'Gagal memuatkan tong sampah',
+    restored: 'Pengguna berjaya dipulihkan!',
+    restoredDescription: '{name} kembali dalam senarai pengguna.',
+    confirmPurge: 'Padam {name} secara kekal? Tindakan ini tidak boleh dibuat asal.',
+    purged: 'Pengguna dipadam secara kekal',
+    purgedDescription: '{name} telah dibuang selama-lamanya.',
+  },
+  duplicates: {
+    trigger: 'Pendua',
+    title: 'Pendua',
+    description:
+      'Pengguna yang berkongsi e-mel, atau mempunyai nama yang serupa dan tarikh lahir yang sama.',
+    loading: 'Mencari pendua...',
+    empty: 'Tiada kemungkinan pendua ditemui',
+    reasons: {
+      email: 'E-mel sama',
+      nameAndDateOfBirth: 'Nama serupa dan tarikh lahir sama',
+    },
+    merge: 'Gabung',
+    created: 'Dicipta {date}',
+    findFailed: 'Gagal mencari pendua',
+    mergeFailed: 'Gagal menggabungkan pengguna',
+    mergedWithErrors: 'Pengguna digabungkan dengan ralat',
+    mergedWithErrorsDescription:
+      '{name} telah dikemas kini, tetapi {count} pendua tidak dapat dipindahkan ke tong sampah.',
+    merged: 'Pengguna berjaya digabungkan!',
+    mergedDescription: '{name} telah dikemas kini dan pendua telah dipindahkan ke tong sampah.',
+  },
+  merge: {
+    title: 'Gabung pengguna',
+    description:
+      'Pilih nilai yang hendak dikekalkan bagi setiap medan. Pengguna yang e-melnya anda kekalkan dikemas kini dan yang lain dipindahkan ke tong sampah.',
+    field: 'Medan',
+    record: 'Rekod {number}',
+    created: 'Dicipta {date}',
+    fields: {
+      name: 'Nama',
+      email: 'E-mel',
+      dateOfBirth: 'Tarikh lahir',
+      gender: 'Jantina',
+      profilePicture: 'Gambar profil',
+    },
+    keptOne: 'dikekalkan; 1 rekod lain dipindahkan ke tong sampah.',
+    keptOther: 'dikekalkan; {count} rekod lain dipindahkan ke tong sampah.',
+    merging: 'Sedang menggabungkan...',
+    mergeButton: 'Gabung {count} pengguna',
+  },
+  history: {
+    title: 'Sejarah',
+    description: 'Setiap perubahan yang dibuat pada {name}, terbaharu dahulu.',
+    thisUser: 'pengguna ini',
+    loading: 'Memuatkan sejarah...',
+    empty: 'Belum ada perubahan direkodkan',
+    actions: {
+      create: 'Dicipta',
+      update: 'Dikemas kini',
+      delete: 'Dipadam',
+      restore: 'Dipulihkan',
+    },
+    by: 'oleh {name}',
+    unknownActor: 'pengguna yang tidak diketahui',
+    revert: 'Kembali ke versi ini',
+    confirmRevert: 'Kembalikan {name} ke versi dari {date}?',
+    reverted: 'Pengguna berjaya dikembalikan!',
+    revertedDescription: '{name} telah dikembalikan ke versi dari {date}.',
+    revertFailed: 'Gagal mengembalikan pengguna',
+    fields: {
+      name: 'Nama',
+      email: 'E-mel',
+      dateOfBirth: 'Tarikh lahir',
+      gender: 'Jantina',
+      profilePicture: 'Gambar profil',
+      deletedAt: 'Dipadam pada',
+    },
+  },
+  fieldSettings: {
+    add: 'Tambah Medan',
+    title: 'Medan pengguna',
+    description:
+      'Medan tambahan yang dipaparkan pada setiap pengguna, dalam borang, senarai, penapis dan eksport.',
+    noPermission: 'Anda tidak mempunyai kebenaran untuk mengurus medan pengguna',
+    loading: 'Memuatkan medan...',
+    columns: {
+      label: 'Label',
+      key: 'Kunci',
+      type: 'Jenis',
+      required: 'Wajib',
+      actions: 'Tindakan',
+    },
+    optionCount: '({count} pilihan)',
+    moveUp: 'Alih {label} ke atas',
+    moveDown: 'Alih {label} ke bawah',
+    edit: 'Sunting',
+    delete: 'Padam',
+    empty: 'Belum ada medan tersuai',
+    editTitle: 'Sunting Medan',
+    addTitle: 'Tambah Medan',
+    editDescription:
+      'Perubahan digunakan pada borang, senarai, penapis dan eksport pengguna dengan serta-merta.',
+    addDescription: 'Medan ditambah pada setiap pengguna dan boleh diisi daripada borang pengguna.',
+    reorderFailed: 'Gagal menyusun semula medan',
+    confirmDelete: 'Padam medan {label}? Ia tidak lagi dipaparkan pada pengguna.',
+    deleted: 'Medan dipadam',
+    deletedDescription: '{label} telah dibuang daripada borang dan senarai pengguna.',
+    deleteFailed: 'Gagal memadam medan',
+    types: {
+      text: 'Teks',
+      number: 'Nombor',
+      date: 'Tarikh',
+      select: 'Senarai juntai bawah',
+      boolean: 'Ya / Tidak',
+    },
+  },
+  customFieldForm: {
+    label: 'Label',
+    labelPlaceholder: 'cth. Jabatan',
+    key: 'Kunci',
+    keyPlaceholder: 'cth. jabatan',
+    keyDescription:
+      'Mengenal pasti medan dalam data yang disimpan dan tidak boleh diubah kemudian.',
+    type: 'Jenis',
+    typePlaceholder: 'Pilih jenis',
+    typeDescription: 'Nilai sedia ada dikekalkan sebagaimana adanya apabila jenis berubah.',
+    options: 'Pilihan',
+    optionsPlaceholder: 'Satu pilihan setiap baris',
+    minLength: 'Panjang min',
+    maxLength: 'Panjang maks',
+    minimum: 'Minimum',
+    maximum: 'Maksimum',
+    pattern: 'Corak',
+    patternDescription: 'Ungkapan nalar yang mesti dipadankan oleh keseluruhan nilai.',
+    required: 'Wajib',
+    create: 'Cipta Medan',
+    update: 'Kemas Kini Medan',
+    creating: 'Sedang mencipta...',
+    updating: 'Sedang mengemas kini...',
+    created: 'Medan berjaya dicipta!',
+    createdDescription: '{label} telah ditambah pada setiap pengguna.',
+    updated: 'Medan berjaya dikemas kini!',
+    updatedDescription: '{label} telah dikemas kini.',
+    createFailed: 'Gagal mencipta medan',
+    updateFailed: 'Gagal mengemas kini medan',
+  },
+  validation: {
+    'Name is required': 'Nama diperlukan',
+    'Name must be less than 100 characters': 'Nama mesti kurang daripada 100 aksara',
+    'Name should not contain numbers or special characters':
+      'Nama tidak boleh mengandungi nombor atau aksara khas',
+    'Invalid email format': 'Format e-mel tidak sah',
+    'Email is required': 'E-mel diperlukan',
+    'Password is required': 'Kata laluan diperlukan',
+    'Date of birth is required': 'Tarikh lahir diperlukan',
+    'Date of birth must be a valid date': 'Tarikh lahir mesti tarikh yang sah',
+    'Age must be between 1 and 100 years old': 'Umur mesti antara 1 dan 100 tahun',
+    'Gender is required': 'Jantina diperlukan',
+    'Gender must be male or female': 'Jantina mesti lelaki atau perempuan',
+    'Profile picture must be a valid URL': 'Gambar profil mesti URL yang sah',
+    'A user with this email already exists': 'Pengguna dengan e-mel ini sudah wujud',
+    '{label} is required': '{label} diperlukan',
+    '{label} must be a number': '{label} mesti nombor',
+    '{label} must be at least {min}': '{label} mesti sekurang-kurangnya {min}',
+    '{label} must be at most {max}': '{label} mesti tidak melebihi {max}',
+    '{label} must be a date': '{label} mesti tarikh',
+    '{label} must be a valid date': '{label} mesti tarikh yang sah',
+    '{label} must be one of the options': '{label} mesti salah satu pilihan',
+    '{label} must be yes or no': '{label} mesti ya atau tidak',
+    '{label} must be at least {min} characters': '{label} mesti sekurang-kurangnya {min} aksara',
+    '{label} must be at most {max} characters': '{label} mesti tidak melebihi {max} aksara',
+    '{label} has an invalid format': '{label} mempunyai format yang tidak sah',
+    'Profile picture must be a JPEG, PNG, WebP or GIF image':
+      'Gambar profil mesti imej JPEG, PNG, WebP atau GIF',
+    'Profile picture must be smaller than 10 MB': 'Gambar profil mesti lebih kecil daripada 10 MB',
+    'This image could not be read': 'Imej ini tidak dapat dibaca',
+    'Emails must be unique and cannot be changed in bulk':
+      'E-mel mesti unik dan tidak boleh diubah secara pukal',
+    'User is in the trash; restore it before importing':
+      'Pengguna berada dalam tong sampah; pulihkannya sebelum mengimport',
+    'Must be a number': 'Mesti nombor',
+    'Key is required': 'Kunci diperlukan',
+    'Key must be less than 40 characters': 'Kunci mesti kurang daripada 40 aksara',
+    'Key must start with a lowercase letter and contain only letters and digits':
+      'Kunci mesti bermula dengan huruf kecil dan mengandungi huruf dan digit sahaja',
+    'This key is used by a built-in field': 'Kunci ini digunakan oleh medan terbina dalam',
+    'Label is required': 'Label diperlukan',
+    'Label must be less than 60 characters': 'Label mesti kurang daripada 60 aksara',
+    'Type is required': 'Jenis diperlukan',
+    'Options cannot be empty': 'Pilihan tidak boleh kosong',
+    'Invalid regular expression': 'Ungkapan nalar tidak sah',
+    'Add at least one option': 'Tambah sekurang-kurangnya satu pilihan',
+    'Options must be unique': 'Pilihan mesti unik',
+    'Maximum must not be less than the minimum': 'Maksimum tidak boleh kurang daripada minimum',
+  },
+};
@@ -1,4 +1,12 @@
 import type { User } from '../models/user';
+import type { CustomFieldDefinition, CustomFieldValue } from '../models/customField';
+import { downloadBlob } from './utils';
+
+/**
+ * Byte order mark that makes Excel read a CSV file as UTF-8; without it
+ * non-ASCII names come out garbled
+ */
+export const UTF8_BOM = '\uFEFF';
 
 const formatDate = (date: Date): string => {
   try {
@@ -23,20 +31,41 @@ const escapeCsvValue = (value: any): string => {
   return stringValue;
 };
 
-export const usersToCSV = (users: User[]): string => {
-  const headers = [
-    'Name',
-    'Email',
-    'Date of Birth',
-    'Gender',
-    'Profile Picture',
-    'Created At',
-    'Updated At',
-    'ID',
-  ];
+export const USER_CSV_HEADERS = [
+  'Name',
+  'Email',
+  'Date of Birth',
+  'Gender',
+  'Profile Picture',
+  'Created At',
+  'Updated At',
+  'ID',
+] as const;
+
+/**
+ * Joins rows of cells into CSV text, quoting cells where needed
+ */
+export const rowsToCSV = (rows: unknown[][]): string => {
+  return rows.map((row) => row.map(escapeCsvValue).join(',')).join('\n');
+};
 
-  const headerRow = headers.map(escapeCsvValue).join(',');
+/**
+ * Cell of a custom field value in the form the importer reads back: dates
+ * stay `YYYY-MM-DD` and booleans become Yes / No
+ */
+export const customFieldToCsvValue = (
+  field: CustomFieldDefinition,
+  value: CustomFieldValue | undefined
+): string => {
+  if (field.type === 'boolean') return value === true ? 'Yes' : 'No';
+  return value === null || value === undefined ? '' : String(value);
+};
 
+/**
+ * Serializes users to CSV; custom fields follow the built-in columns,
+ * headed by their labels
+ */
+export const usersToCSV = (users: User[], customFields: CustomFieldDefinition[] = []): string => {
   const rows = users.map((user) => {
     const values = [
       user.name,
@@ -47,27 +76,27 @@ export const usersToCSV = (users: User[]): string => {
       formatDate(new Date(user.createdAt)),
       formatDate(new Date(user.updatedAt)),
       user.id || '',
+      ...customFields.map((field) => customFieldToCsvValue(field, user.customFields?.[field.key])),
     ];
 
-    return values.map(escapeCsvValue).join(',');
+    return values;
   });
 
-  return [headerRow, ...rows].join('\n');
+  return rowsToCSV([[...USER_CSV_HEADERS, ...customFields.map((field) => field.label)], ...rows]);
 };
 
-export const exportUsersToCSV = (users: User[], filename = 'users.csv'): void => {
-  const csvString = usersToCSV(users);
-
-  const blob = new Blob([csvString], { type: 'text/csv;charset=utf-8;' });
-
-  const url = URL.createObjectURL(blob);
-
-  const link = document.createElement('a');
-  link.href = url;
-  link.setAttribute('download', filename);
-  document.body.appendChild(link);
-  link.click();
+/**
+ * Downloads CSV text, prefixed with a UTF-8 BOM when `bom` is set
+ */
+export const downloadCSV = (csvString: string, filename: string, { bom = false } = {}): void => {
+  const blob = new Blob([bom ? UTF8_BOM : '', csvString], { type: 'text/csv;charset=utf-8;' });
+  downloadBlob(blob, filename);
+};
 
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
+export const exportUsersToCSV = (
+  users: User[],
+  filename = 'users.csv',
+  { bom = false, customFields = [] as CustomFieldDefinition[] } = {}
+) => {
+  downloadCSV(usersToCSV(users, customFields), filename, { bom });
 };
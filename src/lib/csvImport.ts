@@ -0,0 +1,206 @@
+import { createUserSchema, normalizeEmail } from '../models/user';
+import type { CreateUserInput } from '../models/user';
+import { buildCustomFieldValueSchema } from '../models/customField';
+import type { CustomFieldDefinition, CustomFieldValues } from '../models/customField';
+import { USER_CSV_HEADERS } from './csvExport';
+
+type UserCsvHeader = (typeof USER_CSV_HEADERS)[number];
+
+const REQUIRED_HEADERS: UserCsvHeader[] = ['Name', 'Email', 'Date of Birth', 'Gender'];
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  email: 'Email',
+  dateOfBirth: 'Date of Birth',
+  gender: 'Gender',
+  profilePicture: 'Profile Picture',
+};
+
+export interface UserImportRow {
+  /** 1-based record number in the source file, header included */
+  rowNumber: number;
+  id?: string;
+  values: Record<UserCsvHeader, string>;
+  input: CreateUserInput | null;
+  errors: string[];
+}
+
+export interface UserImportPreview {
+  rows: UserImportRow[];
+  headerErrors: string[];
+}
+
+/**
+ * Splits CSV text into rows of cells
+ *
+ * Follows RFC 4180: quoted cells may contain commas, escaped quotes ("")
+ * and line breaks. Accepts both LF and CRLF line endings and strips a
+ * leading UTF-8 BOM as written by Excel.
+ */
+export const parseCSV = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+const isBlankRow = (cells: string[]): boolean => cells.every((cell) => cell.trim() === '');
+
+/**
+ * Parses a CSV file laid out like `usersToCSV` output and validates every row
+ *
+ * Headers are matched case-insensitively and may appear in any order. The
+ * Created At / Updated At columns are ignored since those are server-managed.
+ * Each row is validated against `createUserSchema`; rows that fail keep their
+ * raw values so they can be shown in the import preview. Emails must be unique,
+ * so a row repeating an earlier row's email fails too; clashes with existing
+ * users are only known once the row is written.
+ *
+ * Custom field columns are matched by label or key and validated against
+ * their definitions. Fields without a column are left out of the input, so
+ * importing over existing users keeps their values.
+ */
+export const parseUsersCSV = (
+  text: string,
+  customFields: CustomFieldDefinition[] = []
+): UserImportPreview => {
+  const [headerCells = [], ...dataRows] = parseCSV(text);
+
+  const columnIndex = new Map<UserCsvHeader, number>();
+  headerCells.forEach((cell, index) => {
+    const header = USER_CSV_HEADERS.find(
+      (known) => known.toLowerCase() === cell.trim().toLowerCase()
+    );
+    if (header && !columnIndex.has(header)) {
+      columnIndex.set(header, index);
+    }
+  });
+
+  const customColumns = customFields.flatMap((field) => {
+    const names = [field.label.toLowerCase(), field.key.toLowerCase()];
+    const column = headerCells.findIndex((cell) => names.includes(cell.trim().toLowerCase()));
+    return column === -1 ? [] : [{ field, column, schema: buildCustomFieldValueSchema(field) }];
+  });
+
+  const headerErrors = REQUIRED_HEADERS.filter((header) => !columnIndex.has(header)).map(
+    (header) => `Missing required column "${header}"`
+  );
+
+  if (headerErrors.length > 0) {
+    return { rows: [], headerErrors };
+  }
+
+  const rows = dataRows.flatMap((cells, index): UserImportRow[] => {
+    if (isBlankRow(cells)) return [];
+
+    const values = Object.fromEntries(
+      USER_CSV_HEADERS.map((header) => {
+        const column = columnIndex.get(header);
+        return [header, column === undefined ? '' : (cells[column] ?? '').trim()];
+      })
+    ) as Record<UserCsvHeader, string>;
+
+    const result = createUserSchema.safeParse({
+      name: values['Name'],
+      email: values['Email'],
+      dateOfBirth: values['Date of Birth'],
+      gender: values['Gender'].toLowerCase(),
+      profilePicture: values['Profile Picture'],
+    });
+
+    const customInput: CustomFieldValues = {};
+    const customErrors: string[] = [];
+    for (const { field, column, schema } of customColumns) {
+      const parsed = schema.safeParse((cells[column] ?? '').trim());
+      if (parsed.success) {
+        customInput[field.key] = parsed.data;
+      } else {
+        customErrors.push(
+          ...parsed.error.issues.map((issue) => `${field.label}: ${issue.message}`)
+        );
+      }
+    }
+
+    const errors = [
+      ...(result.success
+        ? []
+        : result.error.issues.map((issue) => {
+            const field = String(issue.path[0] ?? '');
+            return `${FIELD_LABELS[field] ?? field}: ${issue.message}`;
+          })),
+      ...customErrors,
+    ];
+
+    return [
+      {
+        rowNumber: index + 2,
+        ...(values['ID'] && { id: values['ID'] }),
+        values,
+        input:
+          result.success && errors.length === 0
+            ? {
+                ...result.data,
+                ...(customColumns.length > 0 && { customFields: customInput }),
+              }
+            : null,
+        errors,
+      },
+    ];
+  });
+
+  const firstRowByEmail = new Map<string, number>();
+  for (const row of rows) {
+    if (!row.input) continue;
+
+    const email = normalizeEmail(row.input.email);
+    const firstRow = firstRowByEmail.get(email);
+    if (firstRow === undefined) {
+      firstRowByEmail.set(email, row.rowNumber);
+    } else {
+      row.input = null;
+      row.errors.push(`${FIELD_LABELS.email}: Same email as row ${firstRow}`);
+    }
+  }
+
+  return { rows, headerErrors };
+};
@@ -0,0 +1,97 @@
+import { isEmptyCustomFieldValue } from '../models/customField';
+import type { CustomFieldDefinition, CustomFieldValue } from '../models/customField';
+import { t } from '../i18n';
+
+/**
+ * Filters on custom fields, keyed by field key
+ *
+ * Each filter is a string so it round-trips through the URL as is:
+ * - text: a case-insensitive substring
+ * - select: the option to match
+ * - boolean: `yes` or `no`
+ * - number and date: a `from..to` range where either end may be empty
+ */
+export type CustomFieldFilters = Record<string, string>;
+
+export const CUSTOM_FIELD_PARAM_PREFIX = 'cf.';
+
+const RANGE_SEPARATOR = '..';
+
+export interface CustomFieldRange {
+  from: string;
+  to: string;
+}
+
+export const parseCustomFieldRange = (filter: string): CustomFieldRange => {
+  const [from = '', to = ''] = filter.split(RANGE_SEPARATOR);
+  return { from: from.trim(), to: to.trim() };
+};
+
+export const formatCustomFieldRange = ({ from, to }: CustomFieldRange): string => {
+  return from || to ? `${from}${RANGE_SEPARATOR}${to}` : '';
+};
+
+export const isCustomFieldFilterActive = (filter: string | undefined): boolean => {
+  return !!filter && filter !== RANGE_SEPARATOR;
+};
+
+const isInRange = <T extends number | string>(value: T, from: T | null, to: T | null): boolean => {
+  return (from === null || value >= from) && (to === null || value <= to);
+};
+
+/**
+ * Whether a user's value passes the filter of its field
+ *
+ * Users without a value only pass a `no` filter on a boolean field.
+ */
+export const matchesCustomFieldFilter = (
+  field: CustomFieldDefinition,
+  value: CustomFieldValue | undefined,
+  filter: string
+): boolean => {
+  if (!isCustomFieldFilterActive(filter)) return true;
+
+  if (field.type === 'boolean') {
+    return (value === true) === (filter === 'yes');
+  }
+
+  if (isEmptyCustomFieldValue(value)) return false;
+
+  switch (field.type) {
+    case 'select':
+      return value === filter;
+
+    case 'number': {
+      const { from, to } = parseCustomFieldRange(filter);
+      const toNumber = (bound: string) =>
+        bound === '' || isNaN(Number(bound)) ? null : Number(bound);
+      return typeof value === 'number' && isInRange(value, toNumber(from), toNumber(to));
+    }
+
+    case 'date': {
+      // ISO dates compare correctly as strings
+      const { from, to } = parseCustomFieldRange(filter);
+      return typeof value === 'string' && isInRange(value, from || null, to || null);
+    }
+
+    default:
+      return String(value).toLowerCase().includes(filter.trim().toLowerCase());
+  }
+};
+
+/**
+ * Short description of an active filter, for the active filter badges
+ */
+export const describeCustomFieldFilter = (field: CustomFieldDefinition, filter: string): string => {
+  if (field.type === 'boolean') {
+    return `${field.label}: ${filter === 'yes' ? t('common.yes') : t('common.no')}`;
+  }
+
+  if (field.type === 'number' || field.type === 'date') {
+    const { from, to } = parseCustomFieldRange(filter);
+    if (from && to) return `${field.label}: ${from} – ${to}`;
+    return from ? `${field.label} ≥ ${from}` : `${field.label} ≤ ${to}`;
+  }
+
+  return `${field.label}: ${filter}`;
+};
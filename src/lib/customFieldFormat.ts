@@ -0,0 +1,37 @@
+import { isEmptyCustomFieldValue } from '../models/customField';
+import type {
+  CustomFieldDefinition,
+  CustomFieldValue,
+  CustomFieldValues,
+} from '../models/customField';
+import { formatDate, formatNumber, t } from '../i18n';
+
+/**
+ * Formats a value for display in the current language, e.g. in the list
+ */
+export const formatCustomFieldValue = (
+  field: CustomFieldDefinition,
+  value: CustomFieldValue | undefined
+): string => {
+  if (field.type === 'boolean') return value === true ? t('common.yes') : t('common.no');
+  if (isEmptyCustomFieldValue(value)) return '';
+  if (field.type === 'date' && typeof value === 'string') {
+    return formatDate(new Date(value), { dateStyle: 'medium', timeZone: 'UTC' });
+  }
+  if (typeof value === 'number') return formatNumber(value);
+  return String(value);
+};
+
+/**
+ * Formatted values of the fields a user has a value for, in field order
+ */
+export const getCustomFieldDisplayValues = (
+  fields: CustomFieldDefinition[],
+  values: CustomFieldValues = {}
+): { field: CustomFieldDefinition; text: string }[] => {
+  return fields.flatMap((field) =>
+    isEmptyCustomFieldValue(values[field.key])
+      ? []
+      : [{ field, text: formatCustomFieldValue(field, values[field.key]) }]
+  );
+};
@@ -0,0 +1,32 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { isDateInRange } from './dateRange';
+
+describe('isDateInRange', () => {
+  // West of UTC, where UTC midnight falls on the previous local day
+  beforeEach(() => {
+    vi.stubEnv('TZ', 'America/Los_Angeles');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('reads dates of birth as UTC calendar days', () => {
+    const dateOfBirth = new Date('1990-05-15');
+    expect(dateOfBirth.getDate()).toBe(14);
+
+    expect(isDateInRange(dateOfBirth, { from: '1990-05-15', to: '1990-05-15' }, 'date')).toBe(true);
+    expect(isDateInRange(dateOfBirth, { from: '', to: '1990-05-14' }, 'date')).toBe(false);
+  });
+
+  it('reads timestamps as local calendar days', () => {
+    const createdAt = new Date(2024, 0, 31, 23, 30);
+
+    expect(isDateInRange(createdAt, { from: '2024-01-31', to: '2024-01-31' })).toBe(true);
+    expect(isDateInRange(createdAt, { from: '2024-02-01', to: '' })).toBe(false);
+  });
+
+  it('rejects invalid dates', () => {
+    expect(isDateInRange(new Date(''), { from: '', to: '' }, 'date')).toBe(false);
+  });
+});
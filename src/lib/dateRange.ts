@@ -0,0 +1,154 @@
+import { calculateAge, formatDateForInput } from '../models/user';
+import { formatDate, t } from '../i18n';
+
+/**
+ * Inclusive calendar-day range as `YYYY-MM-DD` strings
+ *
+ * An empty bound leaves that side open, so `{ from: '2024-01-01', to: '' }`
+ * matches everything on or after the first of January.
+ */
+export interface DateRangeFilter {
+  from: string;
+  to: string;
+}
+
+/**
+ * Inclusive age range in whole years; `null` leaves that side open
+ */
+export interface AgeRangeFilter {
+  min: number | null;
+  max: number | null;
+}
+
+export const EMPTY_DATE_RANGE: DateRangeFilter = { from: '', to: '' };
+export const EMPTY_AGE_RANGE: AgeRangeFilter = { min: null, max: null };
+
+export interface DateRangePreset {
+  value: string;
+  /** In the current language */
+  readonly label: string;
+  range: (today?: Date) => DateRangeFilter;
+}
+
+const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+const toRange = (from: Date, to: Date): DateRangeFilter => ({
+  from: formatDateForInput(from),
+  to: formatDateForInput(to),
+});
+
+export const DATE_RANGE_PRESETS: DateRangePreset[] = [
+  {
+    value: 'today',
+    get label() {
+      return t('dateRange.presets.today');
+    },
+    range: (today = new Date()) => toRange(today, today),
+  },
+  {
+    value: 'last7Days',
+    get label() {
+      return t('dateRange.presets.last7Days');
+    },
+    range: (today = new Date()) => toRange(addDays(today, -6), today),
+  },
+  {
+    value: 'last30Days',
+    get label() {
+      return t('dateRange.presets.last30Days');
+    },
+    range: (today = new Date()) => toRange(addDays(today, -29), today),
+  },
+  {
+    value: 'thisMonth',
+    get label() {
+      return t('dateRange.presets.thisMonth');
+    },
+    range: (today = new Date()) =>
+      toRange(new Date(today.getFullYear(), today.getMonth(), 1), today),
+  },
+  {
+    value: 'lastMonth',
+    get label() {
+      return t('dateRange.presets.lastMonth');
+    },
+    range: (today = new Date()) =>
+      toRange(
+        new Date(today.getFullYear(), today.getMonth() - 1, 1),
+        new Date(today.getFullYear(), today.getMonth(), 0)
+      ),
+  },
+  {
+    value: 'thisYear',
+    get label() {
+      return t('dateRange.presets.thisYear');
+    },
+    range: (today = new Date()) => toRange(new Date(today.getFullYear(), 0, 1), today),
+  },
+];
+
+export const isDateRangeActive = (range: DateRangeFilter): boolean => {
+  return !!range.from || !!range.to;
+};
+
+export const isAgeRangeActive = (range: AgeRangeFilter): boolean => {
+  return range.min !== null || range.max !== null;
+};
+
+/**
+ * Checks whether a date falls within the range, comparing calendar days in
+ * local time so a user created late in the evening still counts for that day
+ *
+ * Calendar dates such as birthdays are stored as UTC midnight, so with
+ * `kind: 'date'` their day is read in UTC and does not move west of UTC.
+ */
+export const isDateInRange = (
+  date: Date,
+  range: DateRangeFilter,
+  kind: 'date' | 'timestamp' = 'timestamp'
+): boolean => {
+  const value = new Date(date);
+  if (isNaN(value.getTime())) return false;
+
+  const day = kind === 'date' ? value.toISOString().slice(0, 10) : formatDateForInput(value);
+  if (range.from && day < range.from) return false;
+  if (range.to && day > range.to) return false;
+  return true;
+};
+
+export const isAgeInRange = (dateOfBirth: Date, range: AgeRangeFilter): boolean => {
+  const age = calculateAge(new Date(dateOfBirth));
+  if (range.min !== null && age < range.min) return false;
+  if (range.max !== null && age > range.max) return false;
+  return true;
+};
+
+// Bounds are calendar days, so they are formatted in UTC to keep the day
+const formatBound = (day: string): string => {
+  const date = new Date(day);
+  return isNaN(date.getTime()) ? day : formatDate(date, { dateStyle: 'medium', timeZone: 'UTC' });
+};
+
+export const formatDateRange = (range: DateRangeFilter): string => {
+  const from = range.from && formatBound(range.from);
+  const to = range.to && formatBound(range.to);
+  if (from && to) {
+    return range.from === range.to ? from : `${from} – ${to}`;
+  }
+  if (from) return t('dateRange.fromOnly', { date: from });
+  if (to) return t('dateRange.untilOnly', { date: to });
+  return '';
+};
+
+export const formatAgeRange = (range: AgeRangeFilter): string => {
+  if (range.min !== null && range.max !== null) {
+    return t('dateRange.ageBetween', { min: range.min, max: range.max });
+  }
+  if (range.min !== null) return t('dateRange.ageFrom', { min: range.min });
+  if (range.max !== null) return t('dateRange.ageUpTo', { max: range.max });
+  return '';
+};
@@ -0,0 +1,196 @@
+import { normalizeEmail } from '../models/user';
+import type { UpdateUserInput, User } from '../models/user';
+import { normalizeText } from './search';
+
+/**
+ * Minimum Jaro-Winkler similarity for two names to count as the same person,
+ * e.g. "Jon Smith" and "John Smith" score about 0.97
+ */
+export const NAME_SIMILARITY_THRESHOLD = 0.88;
+
+export type DuplicateReason = 'email' | 'nameAndDateOfBirth';
+
+export interface DuplicateGroup {
+  /** Oldest first, so the original record comes first */
+  users: User[];
+  reasons: DuplicateReason[];
+}
+
+/**
+ * Jaro-Winkler similarity between two strings, from 0 (nothing in common)
+ * to 1 (identical)
+ *
+ * Favours strings sharing a prefix, which suits names and their typos.
+ */
+export const jaroWinkler = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (!a.length || !b.length) return 0;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(b.length, i + window + 1);
+    for (let j = start; j < end; j++) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = true;
+        bMatched[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let j = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+
+  const jaro =
+    (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+
+  return jaro + prefix * 0.1 * (1 - jaro);
+};
+
+/**
+ * Normalizes a name for fuzzy comparison; tokens are sorted so
+ * "Smith John" and "John Smith" compare equal
+ */
+const normalizeName = (name: string): string => {
+  return normalizeText(name)
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(' ');
+};
+
+const toDateKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+const groupBy = <T>(items: T[], key: (item: T) => string): T[][] => {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const value = key(item);
+    groups.set(value, [...(groups.get(value) ?? []), item]);
+  }
+  return [...groups.values()];
+};
+
+/**
+ * Groups users that are likely the same person
+ *
+ * Two users match when they share a normalized email, or when their dates
+ * of birth are equal and their names are at least `NAME_SIMILARITY_THRESHOLD`
+ * similar. Matches are transitive, so a group may join users through a
+ * third one. Users are only compared within the same email or date of birth,
+ * which keeps this fast on large lists.
+ */
+export const findDuplicateGroups = (users: User[]): DuplicateGroup[] => {
+  const parent = users.map((_, index) => index);
+  const reasons = new Map<number, Set<DuplicateReason>>();
+
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]!]!;
+      index = parent[index]!;
+    }
+    return index;
+  };
+
+  const union = (a: number, b: number, reason: DuplicateReason) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    const merged = new Set([...(reasons.get(rootA) ?? []), ...(reasons.get(rootB) ?? []), reason]);
+    parent[rootB] = rootA;
+    reasons.set(rootA, merged);
+  };
+
+  const indexed = users.map((user, index) => ({
+    index,
+    email: normalizeEmail(user.email),
+    name: normalizeName(user.name),
+    dateOfBirth: toDateKey(user.dateOfBirth),
+  }));
+
+  for (const sameEmail of groupBy(indexed, (entry) => entry.email)) {
+    sameEmail.slice(1).forEach((entry) => union(sameEmail[0]!.index, entry.index, 'email'));
+  }
+
+  for (const sameBirthday of groupBy(indexed, (entry) => entry.dateOfBirth)) {
+    sameBirthday.forEach((a, i) => {
+      for (const b of sameBirthday.slice(i + 1)) {
+        if (jaroWinkler(a.name, b.name) >= NAME_SIMILARITY_THRESHOLD) {
+          union(a.index, b.index, 'nameAndDateOfBirth');
+        }
+      }
+    });
+  }
+
+  return groupBy(indexed, (entry) => String(find(entry.index)))
+    .filter((group) => group.length > 1)
+    .map((group) => ({
+      users: group
+        .map((entry) => users[entry.index]!)
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()),
+      reasons: [...(reasons.get(find(group[0]!.index)) ?? [])],
+    }))
+    .sort(
+      (a, b) => b.users.length - a.users.length || a.users[0]!.name.localeCompare(b.users[0]!.name)
+    );
+};
+
+export const MERGE_FIELDS = ['name', 'email', 'dateOfBirth', 'gender', 'profilePicture'] as const;
+
+export type MergeField = (typeof MERGE_FIELDS)[number];
+
+/** ID of the user whose value is kept, per field */
+export type MergeSelection = Record<MergeField, string>;
+
+export interface MergePlan {
+  survivor: User;
+  input: UpdateUserInput;
+  duplicates: User[];
+}
+
+/**
+ * Initially keeps every value of the oldest user, the original record
+ */
+export const getDefaultMergeSelection = (users: User[]): MergeSelection => {
+  const id = users[0]?.id ?? '';
+  return Object.fromEntries(MERGE_FIELDS.map((field) => [field, id])) as MergeSelection;
+};
+
+/**
+ * Works out which user survives a merge and how it is updated
+ *
+ * The user whose email is kept survives: emails stay reserved while users
+ * are in the trash, so no other user could take it over.
+ */
+export const planMerge = (users: User[], selection: MergeSelection): MergePlan => {
+  const pick = (field: MergeField) =>
+    users.find((user) => user.id === selection[field]) ?? users[0]!;
+  const survivor = pick('email');
+
+  return {
+    survivor,
+    input: {
+      name: pick('name').name,
+      dateOfBirth: pick('dateOfBirth').dateOfBirth,
+      gender: pick('gender').gender,
+      // An empty value removes the survivor's own picture
+      profilePicture: pick('profilePicture').profilePicture || '',
+    },
+    duplicates: users.filter((user) => user.id !== survivor.id),
+  };
+};
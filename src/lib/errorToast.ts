@@ -0,0 +1,44 @@
+import { toast } from 'vue-sonner';
+import { t, translateValidationMessage } from '@/i18n';
+import type { UserServiceError } from '@/service';
+
+/**
+ * What the user can do about each kind of failure
+ */
+const describeError = (error: UserServiceError | null): string => {
+  switch (error?.code) {
+    case 'network':
+      return t('errors.network');
+    case 'permission-denied':
+      return t('errors.permissionDenied');
+    case 'not-found':
+      return t('errors.notFound');
+    case 'misconfigured':
+      return t('errors.misconfigured');
+    case 'validation':
+    case 'conflict':
+      return translateValidationMessage(error.message);
+    default:
+      return t('common.tryAgain');
+  }
+};
+
+/**
+ * Reports a failed user operation in a toast
+ *
+ * Network errors are usually transient, so they offer a Retry action when
+ * `retry` is given.
+ */
+export const toastServiceError = (
+  title: string,
+  error: UserServiceError | null,
+  retry?: () => unknown
+) => {
+  toast.error(title, {
+    description: describeError(error),
+    action:
+      error?.code === 'network' && retry
+        ? { label: t('common.retry'), onClick: () => retry() }
+        : undefined,
+  });
+};
@@ -0,0 +1,75 @@
+/**
+ * Printable table export
+ *
+ * Renders rows into a hidden frame and opens the browser's print dialog,
+ * where "Save as PDF" produces the PDF. A frame is used rather than a new
+ * window so popup blockers do not get in the way.
+ */
+
+const escapeHtml = (value: string): string => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+const PRINT_STYLES = `
+  @page { size: landscape; margin: 12mm; }
+  body { font-family: system-ui, sans-serif; color: #111827; font-size: 10pt; }
+  h1 { font-size: 16pt; margin: 0 0 4px; }
+  p { color: #6b7280; margin: 0 0 12px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border-bottom: 1px solid #e5e7eb; padding: 4px 6px; text-align: left; vertical-align: top; word-break: break-word; }
+  th { background: #f3f4f6; font-weight: 600; }
+  thead { display: table-header-group; }
+  tr { break-inside: avoid; }
+`;
+
+/**
+ * Opens the print dialog for a table; the first row is the header
+ */
+export const printTable = (
+  rows: (string | number | null)[][],
+  { title, subtitle = '' }: { title: string; subtitle?: string }
+): void => {
+  const [header = [], ...body] = rows;
+  const renderCells = (cells: (string | number | null)[], tag: 'th' | 'td') =>
+    cells.map((cell) => `<${tag}>${escapeHtml(String(cell ?? ''))}</${tag}>`).join('');
+
+  const html = `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>${escapeHtml(title)}</title>
+    <style>${PRINT_STYLES}</style>
+  </head>
+  <body>
+    <h1>${escapeHtml(title)}</h1>
+    ${subtitle ? `<p>${escapeHtml(subtitle)}</p>` : ''}
+    <table>
+      <thead><tr>${renderCells(header, 'th')}</tr></thead>
+      <tbody>${body.map((row) => `<tr>${renderCells(row, 'td')}</tr>`).join('')}</tbody>
+    </table>
+  </body>
+</html>`;
+
+  const frame = document.createElement('iframe');
+  frame.setAttribute('aria-hidden', 'true');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.srcdoc = html;
+
+  frame.onload = () => {
+    const frameWindow = frame.contentWindow;
+    if (!frameWindow) return;
+
+    frameWindow.addEventListener('afterprint', () => frame.remove());
+    frameWindow.focus();
+    frameWindow.print();
+  };
+
+  document.body.appendChild(frame);
+};
@@ -0,0 +1,127 @@
+/** Width and height of stored profile pictures, in pixels */
+export const PROFILE_PICTURE_SIZE = 256;
+
+/** Largest source image accepted for upload, before resizing */
+export const MAX_PROFILE_PICTURE_FILE_SIZE = 10 * 1024 * 1024;
+
+export const PROFILE_PICTURE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+const THUMBNAIL_TYPE = 'image/jpeg';
+const THUMBNAIL_QUALITY = 0.85;
+
+/**
+ * Square crop of a source image
+ *
+ * `zoom` is 1 for the largest square that fits the image. `x` and `y` range
+ * from -1 to 1 and place the square between the left/top and right/bottom
+ * edges of the image, 0 being centered.
+ */
+export interface PictureCrop {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+export const DEFAULT_PICTURE_CROP: PictureCrop = { zoom: 1, x: 0, y: 0 };
+export const MAX_PICTURE_ZOOM = 3;
+
+interface ImageSize {
+  width: number;
+  height: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Checks a picked file before it is decoded, returning an error message or null
+ */
+export const validateProfilePictureFile = (file: File): string | null => {
+  if (!PROFILE_PICTURE_TYPES.includes(file.type)) {
+    return 'Profile picture must be a JPEG, PNG, WebP or GIF image';
+  }
+  if (file.size > MAX_PROFILE_PICTURE_FILE_SIZE) {
+    return 'Profile picture must be smaller than 10 MB';
+  }
+  return null;
+};
+
+/**
+ * Source rectangle of the image covered by a crop
+ */
+const getCropRect = (image: ImageSize, crop: PictureCrop) => {
+  const side = Math.min(image.width, image.height) / clamp(crop.zoom, 1, MAX_PICTURE_ZOOM);
+  const slackX = image.width - side;
+  const slackY = image.height - side;
+
+  return {
+    x: (slackX / 2) * (1 + clamp(crop.x, -1, 1)),
+    y: (slackY / 2) * (1 + clamp(crop.y, -1, 1)),
+    side,
+    slackX,
+    slackY,
+  };
+};
+
+/**
+ * Moves a crop as if the image was dragged by the given distance
+ *
+ * `dx` and `dy` are in the pixels of a preview `viewSize` pixels wide, so
+ * the image follows the pointer whatever the zoom level.
+ */
+export const panCrop = (
+  image: ImageSize,
+  crop: PictureCrop,
+  dx: number,
+  dy: number,
+  viewSize: number
+): PictureCrop => {
+  const { side, slackX, slackY } = getCropRect(image, crop);
+  const scale = side / viewSize;
+
+  return {
+    ...crop,
+    x: slackX > 0 ? clamp(crop.x - (2 * dx * scale) / slackX, -1, 1) : 0,
+    y: slackY > 0 ? clamp(crop.y - (2 * dy * scale) / slackY, -1, 1) : 0,
+  };
+};
+
+/**
+ * Draws the cropped image scaled to fill the whole canvas
+ */
+export const drawCroppedImage = (
+  canvas: HTMLCanvasElement,
+  image: ImageBitmap,
+  crop: PictureCrop
+) => {
+  const context = canvas.getContext('2d');
+  if (!context) return;
+
+  const rect = getCropRect(image, crop);
+  context.imageSmoothingQuality = 'high';
+  // JPEG has no transparency, so transparent PNGs get a white background
+  context.fillStyle = '#fff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, rect.x, rect.y, rect.side, rect.side, 0, 0, canvas.width, canvas.height);
+};
+
+/**
+ * Crops and resizes an image to a square JPEG thumbnail ready for upload
+ */
+export const createThumbnail = (
+  image: ImageBitmap,
+  crop: PictureCrop,
+  size = PROFILE_PICTURE_SIZE
+): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  drawCroppedImage(canvas, image, crop);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Failed to create thumbnail'))),
+      THUMBNAIL_TYPE,
+      THUMBNAIL_QUALITY
+    );
+  });
+};
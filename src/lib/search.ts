@@ -0,0 +1,95 @@
+import type { User } from '../models/user';
+
+export interface TextSegment {
+  text: string;
+  match: boolean;
+}
+
+const COMBINING_MARKS = /[\u0300-\u036f]/g;
+
+/**
+ * Lowercases text and strips diacritics so "José" and "jose" compare equal
+ */
+export const normalizeText = (text: string): string => {
+  return text.normalize('NFD').replace(COMBINING_MARKS, '').toLowerCase();
+};
+
+/**
+ * Splits a search query into normalized, whitespace-separated tokens
+ */
+export const tokenizeQuery = (query: string): string[] => {
+  return normalizeText(query)
+    .split(/\s+/)
+    .filter((token) => token.length > 0);
+};
+
+/**
+ * Checks whether every query token occurs in the user's name or email
+ *
+ * Tokens may match in any order, so "doe jane" finds "Jane Doe".
+ */
+export const userMatchesSearch = (user: User, tokens: string[]): boolean => {
+  if (tokens.length === 0) return true;
+
+  const haystack = `${normalizeText(user.name)} ${normalizeText(user.email)}`;
+  return tokens.every((token) => haystack.includes(token));
+};
+
+/**
+ * Normalizes text character by character, remembering for every normalized
+ * character which original character it came from
+ */
+const normalizeWithIndexMap = (text: string) => {
+  let normalized = '';
+  const indexMap: number[] = [];
+
+  Array.from(text).reduce((offset, char) => {
+    const normalizedChar = normalizeText(char);
+    for (let i = 0; i < normalizedChar.length; i++) {
+      indexMap.push(offset);
+    }
+    normalized += normalizedChar;
+    return offset + char.length;
+  }, 0);
+
+  return { normalized, indexMap };
+};
+
+/**
+ * Splits text into matched and unmatched segments for highlighting
+ *
+ * Matching is case- and accent-insensitive while the returned segments keep
+ * the original characters. Overlapping matches of different tokens are merged.
+ */
+export const highlightMatches = (text: string, tokens: string[]): TextSegment[] => {
+  if (!text || tokens.length === 0) {
+    return [{ text, match: false }];
+  }
+
+  const { normalized, indexMap } = normalizeWithIndexMap(text);
+  const matched = new Array<boolean>(text.length).fill(false);
+
+  for (const token of tokens) {
+    let position = normalized.indexOf(token);
+    while (position !== -1) {
+      const start = indexMap[position]!;
+      const lastIndex = indexMap[position + token.length - 1]!;
+      // Cover every code unit of the last matched character (e.g. surrogate pairs)
+      const end = lastIndex + Array.from(text.slice(lastIndex))[0]!.length;
+      matched.fill(true, start, end);
+      position = normalized.indexOf(token, position + 1);
+    }
+  }
+
+  const segments: TextSegment[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const last = segments[segments.length - 1];
+    if (last && last.match === matched[i]) {
+      last.text += text[i];
+    } else {
+      segments.push({ text: text[i]!, match: matched[i]! });
+    }
+  }
+
+  return segments;
+};
@@ -0,0 +1,173 @@
+import { GENDER_OPTIONS, formatDateForInput } from '../models/user';
+import type { User } from '../models/user';
+import { isAgeInRange, isDateInRange } from './dateRange';
+import type { AgeRangeFilter, DateRangeFilter } from './dateRange';
+import type { UserQueryState } from './userQuery';
+import { formatDate, t } from '../i18n';
+
+/**
+ * Theme colors for chart series, in order
+ */
+export const CHART_COLORS = [
+  'var(--chart-1)',
+  'var(--chart-2)',
+  'var(--chart-3)',
+  'var(--chart-4)',
+  'var(--chart-5)',
+] as const;
+
+export const getChartColor = (index: number): string => {
+  return CHART_COLORS[index % CHART_COLORS.length]!;
+};
+
+/**
+ * Part of the query state a chart segment stands for
+ */
+export type AnalyticsFilter = Partial<
+  Pick<UserQueryState, 'gender' | 'profilePicture' | 'age' | 'createdAt' | 'updatedAt'>
+>;
+
+export interface ChartSegment {
+  key: string;
+  label: string;
+  count: number;
+  /** Filter that narrows the list down to the users of this segment */
+  filter: AnalyticsFilter;
+}
+
+export const AGE_BANDS: AgeRangeFilter[] = [
+  { min: 0, max: 17 },
+  { min: 18, max: 24 },
+  { min: 25, max: 34 },
+  { min: 35, max: 44 },
+  { min: 45, max: 54 },
+  { min: 55, max: 64 },
+  { min: 65, max: null },
+];
+
+const SIGNUP_WEEKS = 12;
+
+const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+const toRange = (from: Date | null, to: Date | null): DateRangeFilter => ({
+  from: from ? formatDateForInput(from) : '',
+  to: to ? formatDateForInput(to) : '',
+});
+
+// Weeks start on Monday, as they do in Malaysia
+const startOfWeek = (date: Date): Date => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  return addDays(start, -((start.getDay() + 6) % 7));
+};
+
+const hasProfilePicture = (user: User): boolean => {
+  return !!user.profilePicture && user.profilePicture.trim() !== '';
+};
+
+export const getGenderSegments = (users: User[]): ChartSegment[] => {
+  return GENDER_OPTIONS.map(({ value }) => ({
+    key: value,
+    label: t(`genders.${value}`),
+    count: users.filter((user) => user.gender === value).length,
+    filter: { gender: value },
+  }));
+};
+
+export const getAgeBandSegments = (users: User[]): ChartSegment[] => {
+  return AGE_BANDS.map((band) => ({
+    key: `${band.min}-${band.max ?? ''}`,
+    label: band.max === null ? `${band.min}+` : `${band.min}–${band.max}`,
+    count: users.filter((user) => isAgeInRange(user.dateOfBirth, band)).length,
+    filter: { age: band },
+  }));
+};
+
+/**
+ * Users created in each of the last weeks, oldest first; the current week
+ * counts so far
+ */
+export const getWeeklySignupSegments = (
+  users: User[],
+  today = new Date(),
+  weeks = SIGNUP_WEEKS
+): ChartSegment[] => {
+  const currentWeek = startOfWeek(today);
+
+  return Array.from({ length: weeks }, (_, index) => {
+    const start = addDays(currentWeek, (index - weeks + 1) * 7);
+    const range = toRange(start, addDays(start, 6));
+    return {
+      key: range.from,
+      label: formatDate(start, { day: 'numeric', month: 'short' }),
+      count: users.filter((user) => isDateInRange(user.createdAt, range)).length,
+      filter: { createdAt: range },
+    };
+  });
+};
+
+export const getProfilePictureSegments = (users: User[]): ChartSegment[] => {
+  const withPicture = users.filter(hasProfilePicture).length;
+
+  return [
+    {
+      key: 'with',
+      label: t('analytics.segments.withPicture'),
+      count: withPicture,
+      filter: { profilePicture: 'with' },
+    },
+    {
+      key: 'without',
+      label: t('analytics.segments.withoutPicture'),
+      count: users.length - withPicture,
+      filter: { profilePicture: 'without' },
+    },
+  ];
+};
+
+/**
+ * Users by how long ago they were last updated, in non-overlapping periods
+ */
+export const getRecentUpdateSegments = (users: User[], today = new Date()): ChartSegment[] => {
+  const periods = [
+    { key: 'today', label: t('analytics.segments.updatedToday'), range: toRange(today, today) },
+    {
+      key: 'thisWeek',
+      label: t('analytics.segments.updatedThisWeek'),
+      range: toRange(addDays(today, -6), addDays(today, -1)),
+    },
+    {
+      key: 'thisMonth',
+      label: t('analytics.segments.updatedThisMonth'),
+      range: toRange(addDays(today, -29), addDays(today, -7)),
+    },
+    {
+      key: 'older',
+      label: t('analytics.segments.updatedOlder'),
+      range: toRange(null, addDays(today, -30)),
+    },
+  ];
+
+  return periods.map(({ key, label, range }) => ({
+    key,
+    label,
+    count: users.filter((user) => isDateInRange(user.updatedAt, range)).length,
+    filter: { updatedAt: range },
+  }));
+};
+
+export const getRecentlyUpdatedUsers = (users: User[], limit = 5): User[] => {
+  return [...users].sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()).slice(0, limit);
+};
+
+/**
+ * Whether the query state already applies the segment's filter
+ */
+export const isSegmentActive = (segment: ChartSegment, state: UserQueryState): boolean => {
+  return Object.entries(segment.filter).every(
+    ([key, value]) => JSON.stringify(state[key as keyof AnalyticsFilter]) === JSON.stringify(value)
+  );
+};
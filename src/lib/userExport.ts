@@ -0,0 +1,302 @@
+import { calculateAge } from '../models/user';
+import type { User } from '../models/user';
+import type { CustomFieldDefinition } from '../models/customField';
+import { downloadCSV, rowsToCSV } from './csvExport';
+import { printTable } from './printExport';
+import { rowsToXlsx } from './xlsxExport';
+import { downloadBlob } from './utils';
+import { formatDate, formatDateTime } from '../i18n';
+
+export const EXPORT_FORMATS = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'json', label: 'JSON' },
+  { value: 'xlsx', label: 'Excel' },
+  { value: 'pdf', label: 'PDF' },
+] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]['value'];
+
+/**
+ * How the users to export are picked: every user, the ones matching the
+ * current filters, or the selected ones
+ */
+export type ExportScope = 'all' | 'filtered' | 'selected';
+
+export const DATE_FORMATS = [
+  { value: 'date', label: 'Date', example: '2024-01-31' },
+  { value: 'datetime', label: 'Date and time', example: '2024-01-31 14:05' },
+  { value: 'iso', label: 'ISO 8601', example: '2024-01-31T14:05:00+08:00' },
+  { value: 'locale', label: 'Readable', example: 'Jan 31, 2024, 2:05 PM' },
+] as const;
+
+export type ExportDateFormat = (typeof DATE_FORMATS)[number]['value'];
+
+type ExportCell = string | number | null;
+type ExportValue = ExportCell | boolean;
+
+interface ExportColumn {
+  id: string;
+  label: string;
+  /**
+   * `date` values are calendar dates stored as UTC midnight and are never
+   * shifted to another time zone; `timestamp` values are shown in the
+   * chosen time zone
+   */
+  kind?: 'date' | 'timestamp';
+  value: (user: User) => string | number | boolean | Date | null | undefined;
+}
+
+/**
+ * Columns that can be exported, in their default order
+ *
+ * Labels match the CSV import headers so a CSV export can be imported back.
+ */
+export const EXPORT_COLUMNS = [
+  { id: 'name', label: 'Name', value: (user) => user.name },
+  { id: 'email', label: 'Email', value: (user) => user.email },
+  {
+    id: 'dateOfBirth',
+    label: 'Date of Birth',
+    kind: 'date',
+    value: (user) => user.dateOfBirth,
+  },
+  { id: 'age', label: 'Age', value: (user) => calculateAge(user.dateOfBirth) },
+  { id: 'gender', label: 'Gender', value: (user) => user.gender },
+  { id: 'profilePicture', label: 'Profile Picture', value: (user) => user.profilePicture },
+  { id: 'createdAt', label: 'Created At', kind: 'timestamp', value: (user) => user.createdAt },
+  { id: 'updatedAt', label: 'Updated At', kind: 'timestamp', value: (user) => user.updatedAt },
+  { id: 'id', label: 'ID', value: (user) => user.id },
+] as const satisfies readonly ExportColumn[];
+
+/**
+ * Built-in column IDs, and `customFields.<key>` for custom fields
+ */
+export type ExportColumnId = (typeof EXPORT_COLUMNS)[number]['id'] | `customFields.${string}`;
+
+/**
+ * Built-in columns followed by one column per custom field
+ *
+ * Custom columns are labelled like their field so CSV exports can be
+ * imported back; dates stay `YYYY-MM-DD` as they carry no time zone.
+ */
+export const getExportColumns = (
+  customFields: CustomFieldDefinition[] = []
+): (ExportColumn & { id: ExportColumnId })[] => [
+  ...EXPORT_COLUMNS,
+  ...customFields.map((field): ExportColumn & { id: ExportColumnId } => ({
+    id: `customFields.${field.key}`,
+    label: field.label,
+    value: (user) => user.customFields?.[field.key],
+  })),
+];
+
+// Same columns as the original CSV export; age is opt-in
+export const DEFAULT_EXPORT_COLUMNS: ExportColumnId[] = [
+  'name',
+  'email',
+  'dateOfBirth',
+  'gender',
+  'profilePicture',
+  'createdAt',
+  'updatedAt',
+  'id',
+];
+
+export interface ExportOptions {
+  format: ExportFormat;
+  /** Columns to include, in output order */
+  columns: ExportColumnId[];
+  dateFormat: ExportDateFormat;
+  /** IANA time zone for timestamps, e.g. `UTC` or `Asia/Kuala_Lumpur` */
+  timeZone: string;
+  /** Prefix CSV files with a UTF-8 byte order mark for Excel */
+  includeBom: boolean;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'csv',
+  columns: DEFAULT_EXPORT_COLUMNS,
+  dateFormat: 'date',
+  timeZone: 'UTC',
+  includeBom: true,
+};
+
+// Columns of custom fields deleted since they were picked are dropped
+const getColumns = (ids: ExportColumnId[], customFields: CustomFieldDefinition[]) => {
+  const available = getExportColumns(customFields);
+  return ids.flatMap((id) => available.filter((column) => column.id === id));
+};
+
+export const getLocalTimeZone = (): string => {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+};
+
+/**
+ * Time zones offered for export: UTC and the browser's own first, then
+ * every zone the browser knows
+ */
+export const getTimeZoneOptions = (): string[] => {
+  // Not in the ES2020 lib typings, and missing from older browsers
+  const { supportedValuesOf } = Intl as { supportedValuesOf?: (key: 'timeZone') => string[] };
+  return [...new Set(['UTC', getLocalTimeZone(), ...(supportedValuesOf?.('timeZone') ?? [])])];
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Calendar fields of a date as seen in a time zone
+ */
+const getZonedParts = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+};
+
+const formatOffset = (date: Date, timeZone: string): string => {
+  const { year, month, day, hour, minute, second } = getZonedParts(date, timeZone);
+  const zonedAsUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  const offsetMinutes = Math.round((zonedAsUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+  if (offsetMinutes === 0) return 'Z';
+
+  const sign = offsetMinutes > 0 ? '+' : '-';
+  const absolute = Math.abs(offsetMinutes);
+  return `${sign}${pad(Math.floor(absolute / 60))}:${pad(absolute % 60)}`;
+};
+
+/**
+ * Formats a date for export
+ *
+ * Calendar dates such as birthdays are always read in UTC and only show
+ * their date part, so they never move to a neighbouring day.
+ */
+export const formatExportDate = (
+  date: Date,
+  dateFormat: ExportDateFormat,
+  timeZone: string,
+  kind: 'date' | 'timestamp' = 'timestamp'
+): string => {
+  if (isNaN(date.getTime())) return '';
+
+  const zone = kind === 'date' ? 'UTC' : timeZone;
+
+  if (dateFormat === 'locale') {
+    return kind === 'date'
+      ? formatDate(date, { dateStyle: 'medium', timeZone: zone })
+      : formatDateTime(date, { dateStyle: 'medium', timeStyle: 'short', timeZone: zone });
+  }
+
+  const { year, month, day, hour, minute, second } = getZonedParts(date, zone);
+  const datePart = `${year}-${pad(month)}-${pad(day)}`;
+
+  if (kind === 'date' || dateFormat === 'date') return datePart;
+  if (dateFormat === 'datetime') return `${datePart} ${pad(hour)}:${pad(minute)}`;
+  return `${datePart}T${pad(hour)}:${pad(minute)}:${pad(second)}${formatOffset(date, zone)}`;
+};
+
+const getExportValue = (
+  user: User,
+  column: ExportColumn,
+  { dateFormat, timeZone }: ExportOptions
+): ExportValue => {
+  const value = column.value(user);
+  if (value instanceof Date) {
+    return formatExportDate(value, dateFormat, timeZone, column.kind);
+  }
+  return value ?? null;
+};
+
+// Spreadsheets and printouts show booleans as words; JSON keeps them as is
+const toCell = (value: ExportValue): ExportCell => {
+  return typeof value === 'boolean' ? (value ? 'Yes' : 'No') : value;
+};
+
+/**
+ * Lays users out as rows of cells, starting with the header row
+ */
+export const usersToExportRows = (
+  users: User[],
+  options: ExportOptions,
+  customFields: CustomFieldDefinition[] = []
+): ExportCell[][] => {
+  const columns = getColumns(options.columns, customFields);
+  return [
+    columns.map((column) => column.label),
+    ...users.map((user) => columns.map((column) => toCell(getExportValue(user, column, options)))),
+  ];
+};
+
+/**
+ * Serializes users as a JSON array of objects keyed by column ID
+ */
+export const usersToJSON = (
+  users: User[],
+  options: ExportOptions,
+  customFields: CustomFieldDefinition[] = []
+): string => {
+  const columns = getColumns(options.columns, customFields);
+  const records = users.map((user) =>
+    Object.fromEntries(columns.map((column) => [column.id, getExportValue(user, column, options)]))
+  );
+  return JSON.stringify(records, null, 2);
+};
+
+/**
+ * Exports users in the chosen format
+ *
+ * CSV, JSON and XLSX are downloaded as `<basename>.<extension>`; PDF opens
+ * the print dialog instead.
+ */
+export const exportUsers = (
+  users: User[],
+  options: ExportOptions,
+  basename: string,
+  customFields: CustomFieldDefinition[] = []
+): void => {
+  switch (options.format) {
+    case 'csv':
+      downloadCSV(rowsToCSV(usersToExportRows(users, options, customFields)), `${basename}.csv`, {
+        bom: options.includeBom,
+      });
+      break;
+    case 'json':
+      downloadBlob(
+        new Blob([usersToJSON(users, options, customFields)], { type: 'application/json' }),
+        `${basename}.json`
+      );
+      break;
+    case 'xlsx':
+      downloadBlob(
+        rowsToXlsx(usersToExportRows(users, options, customFields), 'Users'),
+        `${basename}.xlsx`
+      );
+      break;
+    case 'pdf':
+      printTable(usersToExportRows(users, options, customFields), {
+        title: 'Users',
+        subtitle: `${users.length} ${users.length === 1 ? 'user' : 'users'}, exported ${formatExportDate(
+          new Date(),
+          'locale',
+          options.timeZone
+        )} (${options.timeZone})`,
+      });
+      break;
+  }
+};
@@ -0,0 +1,73 @@
+import type { User } from '../models/user';
+import type { CustomFieldDefinition } from '../models/customField';
+import { tokenizeQuery, userMatchesSearch } from './search';
+import { isAgeInRange, isAgeRangeActive, isDateInRange, isDateRangeActive } from './dateRange';
+import { isCustomFieldFilterActive, matchesCustomFieldFilter } from './customFieldFilter';
+import type { UserQueryState } from './userQuery';
+
+export type UserFilterState = Omit<UserQueryState, 'viewMode' | 'sortBy' | 'sortOrder'>;
+
+/**
+ * Users matching every active filter, in their original order
+ *
+ * Custom field filters only apply to the given definitions; filters on
+ * other keys are ignored.
+ */
+export const filterUsers = (
+  users: User[],
+  filters: UserFilterState,
+  customFields: CustomFieldDefinition[]
+): User[] => {
+  let result = users;
+
+  // Apply free-text search across name and email
+  const searchTokens = tokenizeQuery(filters.search);
+  if (searchTokens.length > 0) {
+    result = result.filter((user) => userMatchesSearch(user, searchTokens));
+  }
+
+  // Apply gender filter
+  if (filters.gender !== 'all') {
+    result = result.filter((user) => user.gender === filters.gender);
+  }
+
+  // Apply profile picture filter
+  if (filters.profilePicture !== 'all') {
+    result = result.filter((user) => {
+      const hasProfilePicture = user.profilePicture && user.profilePicture.trim() !== '';
+      return filters.profilePicture === 'with' ? hasProfilePicture : !hasProfilePicture;
+    });
+  }
+
+  // Apply date of birth range filter
+  if (isDateRangeActive(filters.dateOfBirth)) {
+    result = result.filter((user) => isDateInRange(user.dateOfBirth, filters.dateOfBirth, 'date'));
+  }
+
+  // Apply age range filter, derived from date of birth
+  if (isAgeRangeActive(filters.age)) {
+    result = result.filter((user) => isAgeInRange(user.dateOfBirth, filters.age));
+  }
+
+  // Apply created at range filter
+  if (isDateRangeActive(filters.createdAt)) {
+    result = result.filter((user) => isDateInRange(user.createdAt, filters.createdAt));
+  }
+
+  // Apply updated at range filter
+  if (isDateRangeActive(filters.updatedAt)) {
+    result = result.filter((user) => isDateInRange(user.updatedAt, filters.updatedAt));
+  }
+
+  // Apply custom field filters
+  customFields.forEach((field) => {
+    const filter = filters.customFields[field.key];
+    if (isCustomFieldFilterActive(filter)) {
+      result = result.filter((user) =>
+        matchesCustomFieldFilter(field, user.customFields?.[field.key], filter!)
+      );
+    }
+  });
+
+  return result;
+};
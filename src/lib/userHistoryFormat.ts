@@ -0,0 +1,30 @@
+import { getCustomFieldKey } from '../models/userHistory';
+import type { BuiltInHistoryField, HistoryField, HistoryFieldValue } from '../models/userHistory';
+import type { CustomFieldDefinition } from '../models/customField';
+import { formatDate, formatDateTime, formatNumber, t } from '../i18n';
+
+/**
+ * Label of a history field; custom fields use their definition's label and
+ * fall back to the key once the definition is gone
+ */
+export const getHistoryFieldLabel = (
+  field: HistoryField,
+  customFields: CustomFieldDefinition[] = []
+): string => {
+  const key = getCustomFieldKey(field);
+  if (key === null) return t(`history.fields.${field as BuiltInHistoryField}`);
+  return customFields.find((customField) => customField.key === key)?.label ?? key;
+};
+
+/**
+ * Formats a recorded value for display in the current language
+ */
+export const formatHistoryValue = (field: HistoryField, value: HistoryFieldValue): string => {
+  if (value === null) return '—';
+  if (typeof value === 'boolean') return value ? t('common.yes') : t('common.no');
+  if (typeof value === 'number') return formatNumber(value);
+  if (value instanceof Date) {
+    return field === 'dateOfBirth' ? formatDate(value) : formatDateTime(value);
+  }
+  return value;
+};
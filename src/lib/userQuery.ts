@@ -0,0 +1,192 @@
+import { GENDER_OPTIONS } from '../models/user';
+import type { User } from '../models/user';
+import { EMPTY_AGE_RANGE, EMPTY_DATE_RANGE } from './dateRange';
+import type { AgeRangeFilter, DateRangeFilter } from './dateRange';
+import { CUSTOM_FIELD_PARAM_PREFIX, isCustomFieldFilterActive } from './customFieldFilter';
+import type { CustomFieldFilters } from './customFieldFilter';
+
+export type ViewMode = 'list' | 'grid' | 'table';
+export type ProfilePictureFilter = 'with' | 'without' | 'all';
+
+export const VIEW_MODES: ViewMode[] = ['list', 'grid', 'table'];
+
+export const USER_SORT_FIELDS: (keyof User)[] = [
+  'name',
+  'email',
+  'dateOfBirth',
+  'gender',
+  'profilePicture',
+  'createdAt',
+  'updatedAt',
+];
+
+/**
+ * Everything that determines which users are shown and how
+ */
+export interface UserQueryState {
+  viewMode: ViewMode;
+  sortBy: keyof User;
+  sortOrder: 'asc' | 'desc';
+  search: string;
+  gender: User['gender'] | 'all';
+  profilePicture: ProfilePictureFilter;
+  dateOfBirth: DateRangeFilter;
+  createdAt: DateRangeFilter;
+  updatedAt: DateRangeFilter;
+  age: AgeRangeFilter;
+  customFields: CustomFieldFilters;
+}
+
+export const createDefaultUserQueryState = (): UserQueryState => ({
+  viewMode: 'list',
+  sortBy: 'name',
+  sortOrder: 'asc',
+  search: '',
+  gender: 'all',
+  profilePicture: 'all',
+  dateOfBirth: { ...EMPTY_DATE_RANGE },
+  createdAt: { ...EMPTY_DATE_RANGE },
+  updatedAt: { ...EMPTY_DATE_RANGE },
+  age: { ...EMPTY_AGE_RANGE },
+  customFields: {},
+});
+
+const MAX_AGE = 150;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const DATE_RANGE_PARAMS = {
+  dateOfBirth: ['dobFrom', 'dobTo'],
+  createdAt: ['createdFrom', 'createdTo'],
+  updatedAt: ['updatedFrom', 'updatedTo'],
+} as const;
+
+const oneOf = <T extends string>(value: string | null, allowed: readonly T[], fallback: T): T => {
+  return value !== null && (allowed as readonly string[]).includes(value) ? (value as T) : fallback;
+};
+
+const parseIsoDate = (value: string | null): string => {
+  if (!value || !ISO_DATE_PATTERN.test(value)) return '';
+  return isNaN(new Date(value).getTime()) ? '' : value;
+};
+
+const parseAge = (value: string | null): number | null => {
+  if (!value || !/^\d+$/.test(value)) return null;
+  const age = Number(value);
+  return age <= MAX_AGE ? age : null;
+};
+
+const parseDateRange = (
+  params: URLSearchParams,
+  [fromParam, toParam]: readonly [string, string]
+): DateRangeFilter => {
+  const range = {
+    from: parseIsoDate(params.get(fromParam)),
+    to: parseIsoDate(params.get(toParam)),
+  };
+  // A reversed range can only come from a hand-edited URL; drop the upper bound
+  return range.from && range.to && range.from > range.to ? { ...range, to: '' } : range;
+};
+
+// Definitions are not known here, so filters on fields that no longer exist
+// are kept and simply match nothing to filter by
+const parseCustomFieldFilters = (params: URLSearchParams): CustomFieldFilters => {
+  const filters: CustomFieldFilters = {};
+  params.forEach((value, key) => {
+    if (key.startsWith(CUSTOM_FIELD_PARAM_PREFIX) && isCustomFieldFilterActive(value.trim())) {
+      filters[key.slice(CUSTOM_FIELD_PARAM_PREFIX.length)] = value.trim();
+    }
+  });
+  return filters;
+};
+
+/**
+ * Restores query state from URL search params
+ *
+ * Every parameter is validated on its own: unknown or malformed values fall
+ * back to the default for that field instead of invalidating the whole URL.
+ */
+export const parseUserQuery = (params: URLSearchParams): UserQueryState => {
+  const defaults = createDefaultUserQueryState();
+  const genders = GENDER_OPTIONS.map((option) => option.value);
+
+  const age = { min: parseAge(params.get('ageMin')), max: parseAge(params.get('ageMax')) };
+  if (age.min !== null && age.max !== null && age.min > age.max) {
+    age.max = null;
+  }
+
+  return {
+    viewMode: oneOf(params.get('view'), VIEW_MODES, defaults.viewMode),
+    sortBy: oneOf(params.get('sort'), USER_SORT_FIELDS, defaults.sortBy),
+    sortOrder: oneOf(params.get('order'), ['asc', 'desc'] as const, defaults.sortOrder),
+    search: params.get('q')?.trim() ?? defaults.search,
+    gender: oneOf(params.get('gender'), ['all', ...genders] as const, defaults.gender),
+    profilePicture: oneOf(
+      params.get('picture'),
+      ['all', 'with', 'without'] as const,
+      defaults.profilePicture
+    ),
+    dateOfBirth: parseDateRange(params, DATE_RANGE_PARAMS.dateOfBirth),
+    createdAt: parseDateRange(params, DATE_RANGE_PARAMS.createdAt),
+    updatedAt: parseDateRange(params, DATE_RANGE_PARAMS.updatedAt),
+    age,
+    customFields: parseCustomFieldFilters(params),
+  };
+};
+
+/**
+ * Serializes query state to URL search params, omitting defaults so shared
+ * links stay short
+ */
+export const serializeUserQuery = (state: UserQueryState): URLSearchParams => {
+  const defaults = createDefaultUserQueryState();
+  const params = new URLSearchParams();
+
+  const setIfChanged = (key: string, value: string, defaultValue: string) => {
+    if (value !== defaultValue) params.set(key, value);
+  };
+
+  setIfChanged('view', state.viewMode, defaults.viewMode);
+  setIfChanged('sort', state.sortBy, defaults.sortBy);
+  setIfChanged('order', state.sortOrder, defaults.sortOrder);
+  setIfChanged('q', state.search.trim(), defaults.search);
+  setIfChanged('gender', state.gender, defaults.gender);
+  setIfChanged('picture', state.profilePicture, defaults.profilePicture);
+
+  (Object.keys(DATE_RANGE_PARAMS) as (keyof typeof DATE_RANGE_PARAMS)[]).forEach((field) => {
+    const [fromParam, toParam] = DATE_RANGE_PARAMS[field];
+    setIfChanged(fromParam, state[field].from, '');
+    setIfChanged(toParam, state[field].to, '');
+  });
+
+  if (state.age.min !== null) params.set('ageMin', String(state.age.min));
+  if (state.age.max !== null) params.set('ageMax', String(state.age.max));
+
+  // Sorted so the same filters always produce the same URL
+  Object.keys(state.customFields)
+    .sort()
+    .forEach((key) => {
+      const filter = state.customFields[key]?.trim();
+      if (isCustomFieldFilterActive(filter)) {
+        params.set(`${CUSTOM_FIELD_PARAM_PREFIX}${key}`, filter!);
+      }
+    });
+
+  return params;
+};
+
+/**
+ * The state with every filter reset, keeping the view mode and sorting
+ */
+export const clearUserQueryFilters = (state: UserQueryState): UserQueryState => ({
+  ...createDefaultUserQueryState(),
+  viewMode: state.viewMode,
+  sortBy: state.sortBy,
+  sortOrder: state.sortOrder,
+});
+
+export const hasActiveFilters = (state: UserQueryState): boolean => {
+  return (
+    serializeUserQuery(state).toString() !==
+    serializeUserQuery(clearUserQueryFilters(state)).toString()
+  );
+};
@@ -1,16 +1,29 @@
 import type { ClassValue } from 'clsx';
 import { clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import { formatDate as formatLocaleDate, t } from '../i18n';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
 export function formatDate(date: Date | undefined | null, fallback?: string): string {
-  if (!date) return fallback || 'Pick a date';
-  return date.toLocaleDateString('en-US', {
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
-  });
+  if (!date) return fallback || t('userForm.pickDate');
+  return formatLocaleDate(date, { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
+/**
+ * Saves a blob through the browser's download prompt
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.setAttribute('download', filename);
+  document.body.appendChild(link);
+  link.click();
+
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
 }
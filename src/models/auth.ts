@@ -0,0 +1,52 @@
+import { z } from 'zod';
+
+export const USER_ROLES = ['viewer', 'editor', 'admin'] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+/**
+ * Actions in the user management UI that depend on the signed-in role
+ *
+ * - `create`, `edit`, `delete`: single and bulk writes; deleting moves to the trash
+ * - `export`: downloading user data as CSV
+ * - `manageTrash`: restoring and permanently deleting trashed users
+ * - `manageFields`: adding, editing and removing custom user fields
+ */
+export type Permission = 'create' | 'edit' | 'delete' | 'export' | 'manageTrash' | 'manageFields';
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  viewer: [],
+  editor: ['create', 'edit', 'delete', 'export'],
+  admin: ['create', 'edit', 'delete', 'export', 'manageTrash', 'manageFields'],
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  viewer: 'Viewer',
+  editor: 'Editor',
+  admin: 'Admin',
+};
+
+/**
+ * Signed-in account, as opposed to the `User` records being managed
+ */
+export interface AuthUser {
+  uid: string;
+  email: string;
+  displayName: string | null;
+  role: UserRole;
+}
+
+export const isUserRole = (value: unknown): value is UserRole => {
+  return typeof value === 'string' && (USER_ROLES as readonly string[]).includes(value);
+};
+
+export const hasPermission = (role: UserRole | null | undefined, permission: Permission) => {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+};
+
+export const signInSchema = z.object({
+  email: z.string().min(1, 'Email is required').email('Invalid email format'),
+  password: z.string().min(1, 'Password is required'),
+});
+
+export type SignInInput = z.infer<typeof signInSchema>;
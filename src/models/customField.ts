@@ -0,0 +1,284 @@
+import { z } from 'zod';
+
+export const CUSTOM_FIELD_TYPES = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'date', label: 'Date' },
+  { value: 'select', label: 'Dropdown' },
+  { value: 'boolean', label: 'Yes / No' },
+] as const;
+
+export type CustomFieldType = (typeof CUSTOM_FIELD_TYPES)[number]['value'];
+
+/**
+ * Value of a custom field on a user
+ *
+ * Dates are stored as `YYYY-MM-DD` strings: they are calendar dates like a
+ * start date, so they must not shift with the time zone. Empty values are
+ * stored as null.
+ */
+export type CustomFieldValue = string | number | boolean | null;
+
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+export const customFieldValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+export const customFieldValuesSchema = z.record(z.string(), customFieldValueSchema);
+
+/**
+ * Extra constraints on a value
+ *
+ * `min` and `max` bound the length of text and the value of numbers;
+ * `pattern` is a regular expression text must match in full.
+ */
+export interface CustomFieldValidation {
+  min?: number | null;
+  max?: number | null;
+  pattern?: string | null;
+}
+
+/**
+ * A field admins add to every user, e.g. a department or an employee ID
+ */
+export interface CustomFieldDefinition {
+  /** Key the value is stored under in `User.customFields`; never changes */
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  /** Boolean fields always have a value, so this only applies to the other types */
+  required: boolean;
+  /** Choices of a `select` field */
+  options: string[];
+  validation: CustomFieldValidation;
+  /** Position in forms, lists and exports */
+  order: number;
+}
+
+export type CustomFieldInput = Omit<CustomFieldDefinition, 'order'>;
+export type CustomFieldUpdate = Partial<Omit<CustomFieldInput, 'key'>>;
+
+/**
+ * Keys a custom field cannot use because built-in fields or derived values
+ * already go by them
+ */
+export const RESERVED_CUSTOM_FIELD_KEYS = [
+  'id',
+  'name',
+  'email',
+  'dateOfBirth',
+  'age',
+  'gender',
+  'profilePicture',
+  'createdAt',
+  'updatedAt',
+  'deletedAt',
+  'customFields',
+];
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isValidPattern = (pattern: string): boolean => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const boundSchema = z.number().finite().nullable().optional();
+
+export const customFieldDefinitionSchema = z
+  .object({
+    key: z
+      .string()
+      .trim()
+      .min(1, 'Key is required')
+      .max(40, 'Key must be less than 40 characters')
+      .regex(
+        /^[a-z][a-zA-Z0-9]*$/,
+        'Key must start with a lowercase letter and contain only letters and digits'
+      )
+      .refine(
+        (key) => !RESERVED_CUSTOM_FIELD_KEYS.includes(key),
+        'This key is used by a built-in field'
+      ),
+    label: z
+      .string()
+      .trim()
+      .min(1, 'Label is required')
+      .max(60, 'Label must be less than 60 characters'),
+    type: z.enum(['text', 'number', 'date', 'select', 'boolean'], {
+      required_error: 'Type is required',
+    }),
+    required: z.boolean(),
+    options: z.array(z.string().trim().min(1, 'Options cannot be empty')),
+    validation: z.object({
+      min: boundSchema,
+      max: boundSchema,
+      pattern: z
+        .string()
+        .nullable()
+        .optional()
+        .refine((pattern) => !pattern || isValidPattern(pattern), 'Invalid regular expression'),
+    }),
+  })
+  .superRefine((field, ctx) => {
+    if (field.type === 'select') {
+      if (field.options.length === 0) {
+        ctx.addIssue({ code: 'custom', path: ['options'], message: 'Add at least one option' });
+      } else if (new Set(field.options).size !== field.options.length) {
+        ctx.addIssue({ code: 'custom', path: ['options'], message: 'Options must be unique' });
+      }
+    }
+
+    const { min, max } = field.validation;
+    if (min != null && max != null && min > max) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['validation', 'max'],
+        message: 'Maximum must not be less than the minimum',
+      });
+    }
+  });
+
+/**
+ * Drops the settings that do not apply to the field's type, so switching
+ * types in the settings form leaves no stale options or bounds behind
+ */
+export const normalizeCustomFieldInput = <T extends CustomFieldUpdate>(input: T): T => {
+  if (!input.type) return input;
+
+  const { min = null, max = null, pattern = null } = input.validation ?? {};
+  const hasBounds = input.type === 'text' || input.type === 'number';
+
+  return {
+    ...input,
+    required: input.type === 'boolean' ? false : input.required,
+    options: input.type === 'select' ? (input.options ?? []) : [],
+    validation: {
+      min: hasBounds ? min : null,
+      max: hasBounds ? max : null,
+      pattern: input.type === 'text' && pattern ? pattern : null,
+    },
+  };
+};
+
+export const isEmptyCustomFieldValue = (value: unknown): boolean => {
+  return value === undefined || value === null || value === '';
+};
+
+const BOOLEAN_VALUES: Record<string, boolean> = {
+  true: true,
+  yes: true,
+  y: true,
+  '1': true,
+  false: false,
+  no: false,
+  n: false,
+  '0': false,
+};
+
+const toTrimmedString = (value: unknown): unknown => {
+  return typeof value === 'string' ? value.trim() : value;
+};
+
+/**
+ * Builds the schema validating one custom field value
+ *
+ * Accepts what forms and CSV files produce (strings, and booleans from
+ * checkboxes) as well as stored values, and outputs the stored value.
+ */
+export const buildCustomFieldValueSchema = (
+  field: CustomFieldDefinition
+): z.ZodType<CustomFieldValue, z.ZodTypeDef, unknown> => {
+  const { label, required } = field;
+  const { min, max, pattern } = field.validation;
+  const requiredMessage = `${label} is required`;
+
+  const optional = <T extends z.ZodTypeAny>(schema: T) =>
+    z.preprocess(
+      (value) => (isEmptyCustomFieldValue(toTrimmedString(value)) ? null : toTrimmedString(value)),
+      required
+        ? schema.nullable().refine((value) => value !== null, requiredMessage)
+        : schema.nullable()
+    ) as z.ZodType<CustomFieldValue, z.ZodTypeDef, unknown>;
+
+  switch (field.type) {
+    case 'number': {
+      let schema = z.number({ invalid_type_error: `${label} must be a number` }).finite();
+      if (min != null) schema = schema.min(min, `${label} must be at least ${min}`);
+      if (max != null) schema = schema.max(max, `${label} must be at most ${max}`);
+      return optional(
+        z.preprocess(
+          (value) => (typeof value === 'string' && value !== '' ? Number(value) : value),
+          schema
+        )
+      );
+    }
+
+    case 'date':
+      return optional(
+        z
+          .string({ invalid_type_error: `${label} must be a date` })
+          .refine(
+            (value) => ISO_DATE_PATTERN.test(value) && !isNaN(new Date(value).getTime()),
+            `${label} must be a valid date`
+          )
+      );
+
+    case 'select':
+      return optional(
+        z
+          .string()
+          .refine((value) => field.options.includes(value), `${label} must be one of the options`)
+      );
+
+    case 'boolean':
+      return z.preprocess(
+        (value) => {
+          if (typeof value === 'string') {
+            return value.trim() === ''
+              ? false
+              : (BOOLEAN_VALUES[value.trim().toLowerCase()] ?? value);
+          }
+          return value ?? false;
+        },
+        z.boolean({ invalid_type_error: `${label} must be yes or no` })
+      );
+
+    default: {
+      let schema = z.string();
+      if (min != null) schema = schema.min(min, `${label} must be at least ${min} characters`);
+      if (max != null) schema = schema.max(max, `${label} must be at most ${max} characters`);
+      if (pattern) {
+        schema = schema.regex(new RegExp(`^(?:${pattern})$`), `${label} has an invalid format`);
+      }
+      return optional(schema);
+    }
+  }
+};
+
+/**
+ * Builds the schema validating the custom fields of a user, keyed by field key
+ */
+export const buildCustomFieldsSchema = (fields: CustomFieldDefinition[]) => {
+  return z.object(
+    Object.fromEntries(fields.map((field) => [field.key, buildCustomFieldValueSchema(field)]))
+  );
+};
+
+/**
+ * Value a form input starts with for a stored value
+ */
+export const toCustomFieldFormValue = (
+  field: CustomFieldDefinition,
+  value: CustomFieldValue | undefined
+): string | boolean => {
+  if (field.type === 'boolean') return value === true;
+  return isEmptyCustomFieldValue(value) ? '' : String(value);
+};
+
+export const sortCustomFields = (fields: CustomFieldDefinition[]): CustomFieldDefinition[] => {
+  return [...fields].sort((a, b) => a.order - b.order || a.key.localeCompare(b.key));
+};
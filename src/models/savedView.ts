@@ -0,0 +1,44 @@
+import { z } from 'zod';
+
+export const SAVED_VIEW_VISIBILITIES = ['private', 'shared'] as const;
+
+/**
+ * Private views are only listed for their owner; shared views for the whole team
+ */
+export type SavedViewVisibility = (typeof SAVED_VIEW_VISIBILITIES)[number];
+
+/**
+ * A named combination of view mode, sorting and filters for the user list
+ */
+export interface SavedView {
+  id: string;
+  name: string;
+  visibility: SavedViewVisibility;
+  /**
+   * The list's URL query for the view, e.g. `view=grid&gender=female`
+   *
+   * Stored the way links are shared, so views saved before a filter existed
+   * keep working and unknown parameters are dropped when applied.
+   */
+  query: string;
+  /** Only the owner can change or delete a view */
+  ownerId: string;
+  ownerName: string;
+}
+
+export type SavedViewInput = Pick<SavedView, 'name' | 'visibility' | 'query'>;
+export type SavedViewUpdate = Partial<SavedViewInput>;
+
+export const savedViewSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(100, 'Name must be less than 100 characters'),
+  visibility: z.enum(SAVED_VIEW_VISIBILITIES),
+  query: z.string(),
+});
+
+export const sortSavedViews = (views: SavedView[]): SavedView[] => {
+  return [...views].sort((a, b) => a.name.localeCompare(b.name));
+};
@@ -1,6 +1,7 @@
 import { z } from 'zod';
+import { customFieldValuesSchema } from './customField';
 
-const calculateAge = (dateOfBirth: Date): number => {
+export const calculateAge = (dateOfBirth: Date): number => {
   const today = new Date();
   let age = today.getFullYear() - dateOfBirth.getFullYear();
   const monthDiff = today.getMonth() - dateOfBirth.getMonth();
@@ -20,7 +21,7 @@ export const userSchema = z.object({
     .max(100, 'Name must be less than 100 characters')
     .regex(/^[a-zA-Z\s'-]+$/, 'Name should not contain numbers or special characters'),
 
-  email: z.string().email('Invalid email format'),
+  email: z.string().trim().email('Invalid email format'),
 
   dateOfBirth: z
     .date({
@@ -48,8 +49,14 @@ export const userSchema = z.object({
     .optional()
     .or(z.literal('')),
 
+  /** Values of admin-defined fields, keyed by field key; see `CustomFieldDefinition` */
+  customFields: customFieldValuesSchema.optional(),
+
   createdAt: z.date(),
   updatedAt: z.date(),
+
+  /** Set when the user was moved to the trash; null for active users */
+  deletedAt: z.date().nullable().optional(),
 });
 
 export const userWithIdSchema = userSchema.extend({
@@ -60,6 +67,7 @@ export const createUserSchema = userSchema
   .omit({
     createdAt: true,
     updatedAt: true,
+    deletedAt: true,
   })
   .extend({
     dateOfBirth: z
@@ -126,6 +134,31 @@ export type UserWithId = z.infer<typeof userWithIdSchema>;
 export type CreateUserInput = z.infer<typeof createUserSchema>;
 export type UpdateUserInput = z.infer<typeof updateUserSchema>;
 
+/**
+ * Applies a partial update to a user
+ *
+ * Custom fields are merged key by key, so an update only touches the custom
+ * fields it names; a null value clears one.
+ */
+export const mergeUserUpdate = <T extends Partial<User>>(user: T, updates: Partial<User>): T => {
+  return {
+    ...user,
+    ...updates,
+    ...(updates.customFields && {
+      customFields: { ...user.customFields, ...updates.customFields },
+    }),
+  };
+};
+
+export const DUPLICATE_EMAIL_MESSAGE = 'A user with this email already exists';
+
+/**
+ * Canonical form of an email, used to compare emails for uniqueness
+ */
+export const normalizeEmail = (email: string): string => {
+  return email.trim().normalize('NFKC').toLowerCase();
+};
+
 export const GENDER_OPTIONS = [
   { value: 'male', label: 'Male' },
   { value: 'female', label: 'Female' },
@@ -184,5 +217,7 @@ export const firestoreDocToUser = (doc: any): User => {
     profilePicture: data.profilePicture || '',
     createdAt: data.createdAt.toDate(),
     updatedAt: data.updatedAt.toDate(),
+    customFields: data.customFields ?? {},
+    deletedAt: data.deletedAt ? data.deletedAt.toDate() : null,
   };
 };
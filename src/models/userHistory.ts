@@ -0,0 +1,132 @@
+import type { User } from './user';
+
+/**
+ * Fields whose changes are recorded in a user's history
+ */
+export const HISTORY_FIELDS = [
+  'name',
+  'email',
+  'dateOfBirth',
+  'gender',
+  'profilePicture',
+  'deletedAt',
+] as const;
+
+export type BuiltInHistoryField = (typeof HISTORY_FIELDS)[number];
+
+/**
+ * Changes to custom fields are recorded per field as `customFields.<key>`
+ */
+export type HistoryField = BuiltInHistoryField | `customFields.${string}`;
+export type HistoryFieldValue = string | number | boolean | Date | null;
+
+const CUSTOM_FIELD_PREFIX = 'customFields.';
+
+/**
+ * Key of the custom field a history field refers to, or null for built-in fields
+ */
+export const getCustomFieldKey = (field: HistoryField): string | null => {
+  return field.startsWith(CUSTOM_FIELD_PREFIX) ? field.slice(CUSTOM_FIELD_PREFIX.length) : null;
+};
+
+export const HISTORY_DATE_FIELDS: HistoryField[] = ['dateOfBirth', 'deletedAt'];
+
+export type UserHistoryAction = 'create' | 'update' | 'delete' | 'restore';
+
+export interface UserFieldChange {
+  field: HistoryField;
+  before: HistoryFieldValue;
+  after: HistoryFieldValue;
+}
+
+/**
+ * Whoever issued a write, as recorded in history entries
+ */
+export interface UserHistoryActor {
+  id: string;
+  name: string;
+}
+
+export interface UserHistoryEntry {
+  id: string;
+  userId: string;
+  action: UserHistoryAction;
+  changes: UserFieldChange[];
+  timestamp: Date;
+  /** Null when the write was issued without a signed-in user */
+  actor: UserHistoryActor | null;
+}
+
+// Missing and empty values are the same thing to the user, and Firestore
+// cannot store undefined
+const normalizeValue = (value: unknown): HistoryFieldValue => {
+  if (value === undefined || value === null || value === '') return null;
+  if (value instanceof Date) return new Date(value);
+  if (typeof value === 'number' || typeof value === 'boolean') return value;
+  return String(value);
+};
+
+/**
+ * Tracked fields of a user: the built-in ones and every custom field either
+ * version has
+ */
+const getTrackedFields = (...versions: Partial<User>[]): HistoryField[] => {
+  const customKeys = new Set(
+    versions.flatMap((version) => Object.keys(version.customFields ?? {}))
+  );
+  return [
+    ...HISTORY_FIELDS,
+    ...[...customKeys].map((key): HistoryField => `${CUSTOM_FIELD_PREFIX}${key}`),
+  ];
+};
+
+const getFieldValue = (user: Partial<User>, field: HistoryField): unknown => {
+  const key = getCustomFieldKey(field);
+  return key === null ? user[field as BuiltInHistoryField] : user.customFields?.[key];
+};
+
+const isSameValue = (a: HistoryFieldValue, b: HistoryFieldValue): boolean => {
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  return a === b;
+};
+
+/**
+ * Lists the tracked fields that differ between two versions of a user
+ *
+ * Pass an empty object as `before` for a newly created user.
+ */
+export const diffUserFields = (before: Partial<User>, after: Partial<User>): UserFieldChange[] => {
+  return getTrackedFields(before, after).flatMap((field): UserFieldChange[] => {
+    const beforeValue = normalizeValue(getFieldValue(before, field));
+    const afterValue = normalizeValue(getFieldValue(after, field));
+    return isSameValue(beforeValue, afterValue)
+      ? []
+      : [{ field, before: beforeValue, after: afterValue }];
+  });
+};
+
+/**
+ * Reconstructs the tracked fields of a user as they were right after the
+ * given history entry
+ *
+ * Walks back from the current user, undoing every newer entry. `history`
+ * must be ordered newest first, as returned by the repository.
+ */
+export const getUserVersion = (
+  user: User,
+  history: UserHistoryEntry[],
+  entryId: string
+): Partial<Record<HistoryField, HistoryFieldValue>> => {
+  const version: Partial<Record<HistoryField, HistoryFieldValue>> = Object.fromEntries(
+    getTrackedFields(user).map((field) => [field, normalizeValue(getFieldValue(user, field))])
+  );
+
+  for (const entry of history) {
+    if (entry.id === entryId) break;
+    for (const change of entry.changes) {
+      version[change.field] = change.before;
+    }
+  }
+
+  return version;
+};
@@ -0,0 +1,45 @@
+import { createRouter, createWebHistory } from 'vue-router';
+import UsersView from '@/views/UsersView.vue';
+import UserDetailView from '@/views/UserDetailView.vue';
+import NotFoundView from '@/views/NotFoundView.vue';
+import FieldSettingsView from '@/views/FieldSettingsView.vue';
+import AnalyticsView from '@/views/AnalyticsView.vue';
+
+export const router = createRouter({
+  history: createWebHistory(import.meta.env.BASE_URL),
+  routes: [
+    {
+      path: '/',
+      name: 'users',
+      component: UsersView,
+    },
+    {
+      // The list lives at the root; keep `/users` working for hand-typed links
+      path: '/users',
+      redirect: (to) => ({ name: 'users', query: to.query }),
+    },
+    {
+      path: '/users/:id',
+      name: 'user-detail',
+      component: UserDetailView,
+      props: true,
+    },
+    {
+      // Shares the list's query, so filters carry over in both directions
+      path: '/analytics',
+      name: 'analytics',
+      component: AnalyticsView,
+    },
+    {
+      path: '/settings/fields',
+      name: 'field-settings',
+      component: FieldSettingsView,
+    },
+    {
+      path: '/:pathMatch(.*)*',
+      name: 'not-found',
+      component: NotFoundView,
+    },
+  ],
+  scrollBehavior: (_to, _from, savedPosition) => savedPosition ?? { top: 0 },
+});
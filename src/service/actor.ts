@@ -0,0 +1,15 @@
+import type { UserHistoryActor } from '@/models/userHistory';
+
+let currentActor: UserHistoryActor | null = null;
+
+/**
+ * Sets who is recorded as the actor of subsequent writes
+ *
+ * Repositories read it when recording history, so the application only has
+ * to update it when the signed-in user changes.
+ */
+export const setCurrentActor = (actor: UserHistoryActor | null) => {
+  currentActor = actor;
+};
+
+export const getCurrentActor = (): UserHistoryActor | null => currentActor;
@@ -0,0 +1,27 @@
+import type { AuthUser } from '@/models/auth';
+import type { Unsubscribe } from './userRepository';
+
+/**
+ * Authentication Contract
+ *
+ * Signs accounts in and out and reports the current account with its role.
+ * Like `UserRepository`, implementations only expose domain objects so the
+ * application never depends on Firebase Auth types.
+ */
+export interface AuthProvider {
+  /**
+   * Signs in with email and password
+   *
+   * @throws Error with a user-facing message when the credentials are rejected
+   */
+  signIn(email: string, password: string): Promise<AuthUser>;
+  signOut(): Promise<void>;
+
+  /**
+   * Listens for sign-in and sign-out
+   *
+   * The callback is invoked once the initial state is known (null when
+   * signed out) and again on every change.
+   */
+  onAuthStateChanged(callback: (user: AuthUser | null) => void): Unsubscribe;
+}
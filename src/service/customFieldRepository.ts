@@ -0,0 +1,42 @@
+import type {
+  CustomFieldDefinition,
+  CustomFieldInput,
+  CustomFieldUpdate,
+} from '@/models/customField';
+import type { Unsubscribe } from './userRepository';
+
+/**
+ * Custom Field Repository Contract
+ *
+ * Stores the definitions of admin-defined user fields. Values live on the
+ * users themselves (`User.customFields`), so deleting a definition leaves
+ * existing values in place; they are simply no longer shown, and come back
+ * if a field with the same key is added again.
+ *
+ * Keys are unique and cannot change: creating a field with a key in use
+ * rejects with a `ConflictError` on `key`. Definitions are returned ordered
+ * by `order`.
+ *
+ * Methods reject with a `UserServiceError` subclass (see `./errors`).
+ */
+export interface CustomFieldRepository {
+  getFields(): Promise<CustomFieldDefinition[]>;
+
+  /** Adds a field after the existing ones */
+  createField(input: CustomFieldInput): Promise<CustomFieldDefinition>;
+  updateField(key: string, input: CustomFieldUpdate): Promise<CustomFieldDefinition>;
+  deleteField(key: string): Promise<void>;
+
+  /** Rewrites the order of every field to match `keys` */
+  reorderFields(keys: string[]): Promise<void>;
+
+  /**
+   * Listens for changes to the definitions
+   *
+   * Every invocation delivers the complete ordered list.
+   */
+  subscribeToFields(
+    onChange: (fields: CustomFieldDefinition[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe;
+}
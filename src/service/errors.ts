@@ -0,0 +1,146 @@
+import { DUPLICATE_EMAIL_MESSAGE } from '@/models/user';
+
+export type UserServiceErrorCode =
+  | 'not-found'
+  | 'permission-denied'
+  | 'validation'
+  | 'conflict'
+  | 'network'
+  | 'misconfigured'
+  | 'unknown';
+
+const DEFAULT_MESSAGES: Record<UserServiceErrorCode, string> = {
+  'not-found': 'User not found',
+  'permission-denied': 'You do not have permission to perform this action',
+  validation: 'The user data is invalid',
+  conflict: 'The user was changed by someone else',
+  network: 'Could not reach the server',
+  misconfigured: 'The database is missing an index this query needs',
+  unknown: 'An unexpected error occurred',
+};
+
+/**
+ * Base class of every error rejected by `userService`
+ *
+ * Callers branch on `code` rather than on messages; the message is
+ * user-facing. Backend errors are kept as `cause` for debugging.
+ */
+export class UserServiceError extends Error {
+  readonly code: UserServiceErrorCode;
+  readonly cause: unknown;
+
+  constructor(code: UserServiceErrorCode, message = DEFAULT_MESSAGES[code], cause?: unknown) {
+    super(message);
+    this.name = 'UserServiceError';
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+export class NotFoundError extends UserServiceError {
+  constructor(message?: string, cause?: unknown) {
+    super('not-found', message, cause);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class PermissionDeniedError extends UserServiceError {
+  constructor(message?: string, cause?: unknown) {
+    super('permission-denied', message, cause);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+/**
+ * Rejected input, with a message per invalid field so forms can show them
+ * next to the inputs
+ */
+export class ValidationError extends UserServiceError {
+  readonly fieldErrors: Record<string, string>;
+
+  constructor(fieldErrors: Record<string, string>, message?: string, cause?: unknown) {
+    super('validation', message ?? Object.values(fieldErrors)[0], cause);
+    this.name = 'ValidationError';
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+/**
+ * The write clashes with the current data, e.g. a concurrent change or a
+ * value that must be unique; `field` names the offending field if any
+ */
+export class ConflictError extends UserServiceError {
+  readonly field?: string;
+
+  constructor(message?: string, field?: string, cause?: unknown) {
+    super('conflict', message, cause);
+    this.name = 'ConflictError';
+    this.field = field;
+  }
+}
+
+export class NetworkError extends UserServiceError {
+  constructor(message?: string, cause?: unknown) {
+    super('network', message, cause);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Thrown when a create or update would give a user an email that another
+ * user already has
+ *
+ * Emails are compared with `normalizeEmail`. Users in the trash keep their
+ * email reserved so they can always be restored.
+ */
+export class DuplicateEmailError extends ConflictError {
+  readonly email: string;
+
+  constructor(email: string) {
+    super(DUPLICATE_EMAIL_MESSAGE, 'email');
+    this.name = 'DuplicateEmailError';
+    this.email = email;
+  }
+}
+
+/**
+ * Creates the error class matching a code
+ */
+export const createUserServiceError = (
+  code: UserServiceErrorCode,
+  message?: string,
+  cause?: unknown
+): UserServiceError => {
+  switch (code) {
+    case 'not-found':
+      return new NotFoundError(message, cause);
+    case 'permission-denied':
+      return new PermissionDeniedError(message, cause);
+    case 'validation':
+      return new ValidationError({}, message ?? DEFAULT_MESSAGES.validation, cause);
+    case 'conflict':
+      return new ConflictError(message, undefined, cause);
+    case 'network':
+      return new NetworkError(message, cause);
+    default:
+      return new UserServiceError('unknown', message, cause);
+  }
+};
+
+/**
+ * Normalizes anything thrown into a `UserServiceError`
+ *
+ * Errors that are already typed pass through. Anything else counts as a
+ * network error while the browser is offline and as unknown otherwise.
+ */
+export const toUserServiceError = (error: unknown, fallbackMessage?: string): UserServiceError => {
+  if (error instanceof UserServiceError) return error;
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    return new NetworkError(undefined, error);
+  }
+  return new UserServiceError(
+    'unknown',
+    error instanceof Error ? error.message : (fallbackMessage ?? DEFAULT_MESSAGES.unknown),
+    error
+  );
+};
@@ -1,38 +1,66 @@
-/// <reference types="vite/client" />
-import { initializeApp } from 'firebase/app';
 import {
-  getFirestore,
+  initializeFirestore,
+  persistentLocalCache,
+  persistentMultipleTabManager,
+  connectFirestoreEmulator,
   collection,
   doc,
-  addDoc,
   getDocs,
   getDoc,
-  updateDoc,
-  deleteDoc,
+  getDocsFromCache,
+  getDocFromCache,
   serverTimestamp,
   Timestamp,
   query,
   orderBy,
+  onSnapshot,
+  limit,
+  startAfter,
+  startAt,
+  where,
+  writeBatch,
+  runTransaction,
 } from 'firebase/firestore';
+import type {
+  DocumentData,
+  DocumentReference,
+  DocumentSnapshot,
+  FirestoreError,
+  Query,
+  QueryConstraint,
+  QueryDocumentSnapshot,
+  SnapshotOptions,
+  WriteBatch,
+} from 'firebase/firestore';
+import { FirebaseError } from 'firebase/app';
+import { mergeUserUpdate, normalizeEmail } from '@/models/user';
 import type { User, CreateUserInput, UpdateUserInput } from '@/models/user';
+import { diffUserFields } from '@/models/userHistory';
+import type { UserFieldChange, UserHistoryAction, UserHistoryEntry } from '@/models/userHistory';
+import { getCurrentActor } from './actor';
+import { app, parseEmulatorHost } from './firebaseApp';
+import { BULK_EMAIL_MESSAGE, DEFAULT_USER_ORDERING } from './userRepository';
+import {
+  DuplicateEmailError,
+  NetworkError,
+  NotFoundError,
+  createUserServiceError,
+  toUserServiceError,
+} from './errors';
+import type { UserServiceError, UserServiceErrorCode } from './errors';
+import { assertValidUserInput } from './validation';
+import type { BulkWriteResult, UserChange, UserOrdering, UserRepository } from './userRepository';
 
-/**
- * Firebase Configuration
- *
- * Loads configuration values from environment variables to avoid hardcoding
- */
-const firebaseConfig = {
-  apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
-  authDomain: import.meta.env.VITE_FIREBASE_AUTH_DOMAIN,
-  projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID,
-  storageBucket: import.meta.env.VITE_FIREBASE_STORAGE_BUCKET,
-  messagingSenderId: import.meta.env.VITE_FIREBASE_MESSAGING_SENDER_ID,
-  appId: import.meta.env.VITE_FIREBASE_APP_ID,
-  measurementId: import.meta.env.VITE_FIREBASE_MEASUREMENT_ID,
-};
+// Documents and queued writes are kept in IndexedDB, shared by all tabs, so
+// the app keeps working without a connection
+const db = initializeFirestore(app, {
+  localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() }),
+});
 
-const app = initializeApp(firebaseConfig);
-const db = getFirestore(app);
+const firestoreEmulator = parseEmulatorHost(import.meta.env.VITE_FIRESTORE_EMULATOR_HOST);
+if (firestoreEmulator) {
+  connectFirestoreEmulator(db, firestoreEmulator.host, firestoreEmulator.port);
+}
 
 /**
  * Collection Constants
@@ -42,6 +70,13 @@ const db = getFirestore(app);
  * if collection names were to be modified.
  */
 const USERS_COLLECTION = 'users';
+const HISTORY_SUBCOLLECTION = 'history';
+const USER_EMAILS_COLLECTION = 'userEmails';
+
+/**
+ * Firestore rejects batches with more than 500 writes
+ */
+const MAX_BATCH_SIZE = 500;
 
 const convertTimestampToDate = (timestamp: Timestamp): Date => {
   return timestamp.toDate();
@@ -61,8 +96,12 @@ const convertDateToTimestamp = (date: Date): Timestamp => {
   return Timestamp.fromDate(date);
 };
 
-const convertDocToUser = (doc: any): User => {
-  const data = doc.data();
+// Server timestamps of writes that have not synced yet are estimated locally
+const convertDocToUser = (
+  doc: any,
+  options: SnapshotOptions = { serverTimestamps: 'estimate' }
+): User => {
+  const data = doc.data(options);
   return {
     id: doc.id,
     name: data.name,
@@ -70,16 +109,335 @@ const convertDocToUser = (doc: any): User => {
     dateOfBirth: convertTimestampToDate(data.dateOfBirth),
     gender: data.gender,
     profilePicture: data.profilePicture,
+    customFields: data.customFields ?? {},
     createdAt: convertTimestampToDate(data.createdAt),
     updatedAt: convertTimestampToDate(data.updatedAt),
+    deletedAt: data.deletedAt ? convertTimestampToDate(data.deletedAt) : null,
+  };
+};
+
+/**
+ * Restricts a query to users that are not in the trash
+ *
+ * Firestore cannot match documents missing a field, so active users carry
+ * an explicit `deletedAt: null` that is written on creation and restore.
+ */
+const activeUsersConstraint = (): QueryConstraint => {
+  return where('deletedAt', '==', null);
+};
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+/**
+ * Firestore error codes mapped to the service error model
+ *
+ * `aborted` is what a transaction reports after too many concurrent
+ * changes, and `failed-precondition` what a query reports when the
+ * composite index it needs has not been deployed (see
+ * firestore.indexes.json); unlisted codes become `unknown`.
+ */
+const FIRESTORE_ERROR_CODES: Partial<Record<FirestoreError['code'], UserServiceErrorCode>> = {
+  'not-found': 'not-found',
+  'permission-denied': 'permission-denied',
+  unauthenticated: 'permission-denied',
+  'invalid-argument': 'validation',
+  'already-exists': 'conflict',
+  aborted: 'conflict',
+  unavailable: 'network',
+  'deadline-exceeded': 'network',
+  'failed-precondition': 'misconfigured',
+};
+
+/**
+ * Converts anything a Firestore call throws into a `UserServiceError`
+ */
+export const convertFirestoreError = (
+  error: unknown,
+  fallbackMessage: string
+): UserServiceError => {
+  // Some SDK paths, e.g. transactions over gRPC, reject with a plain
+  // FirebaseError carrying a Firestore code rather than a FirestoreError
+  if (error instanceof FirebaseError) {
+    const code = FIRESTORE_ERROR_CODES[error.code as FirestoreError['code']];
+    if (code) return createUserServiceError(code, undefined, error);
+  }
+  return toUserServiceError(error, fallbackMessage);
+};
+
+const isOffline = (): boolean => {
+  return typeof navigator !== 'undefined' && !navigator.onLine;
+};
+
+/**
+ * Reads from the local cache while the browser is offline instead of waiting
+ * for the server to time out
+ *
+ * A cached query returns whatever part of the result is cached; a document
+ * that is not cached rejects with `unavailable`.
+ */
+export const readDocs = (q: Query) => {
+  return isOffline() ? getDocsFromCache(q) : getDocs(q);
+};
+
+export const readDoc = (docRef: DocumentReference) => {
+  return isOffline() ? getDocFromCache(docRef) : getDoc(docRef);
+};
+
+/**
+ * Commits a batch, waiting for the server only while online
+ *
+ * Offline, Firestore applies the batch to the local cache at once and sends
+ * it when the connection returns, but the commit only settles once the
+ * server answers. The commit is left running instead, and a rejection on
+ * sync (e.g. an email taken in the meantime) is logged while the cache
+ * reverts the change.
+ */
+const commitBatch = async (batch: WriteBatch): Promise<void> => {
+  if (!isOffline()) return batch.commit();
+
+  batch.commit().catch((error) => console.error('Queued write was rejected on sync:', error));
+};
+
+/**
+ * Writes that transactions and batches have in common, so the same writes
+ * can run in a transaction online and be queued in a batch offline
+ */
+interface DocumentWriter {
+  set(documentRef: DocumentReference, data: DocumentData): unknown;
+  update(documentRef: DocumentReference, data: DocumentData): unknown;
+  delete(documentRef: DocumentReference): unknown;
+}
+
+/**
+ * Reads a document for a write; resolves with null when it is unknown, which
+ * only happens offline for documents missing from the cache
+ */
+type DocumentReader = (documentRef: DocumentReference) => Promise<DocumentSnapshot | null>;
+
+const readFromCache: DocumentReader = (documentRef) => {
+  return getDocFromCache(documentRef).catch(() => null);
+};
+
+const historyCollection = (userId: string) => {
+  return collection(db, USERS_COLLECTION, userId, HISTORY_SUBCOLLECTION);
+};
+
+/**
+ * Email index document reserving an email for one user
+ *
+ * Keyed by the normalized email, so reading and writing it in the same
+ * transaction as the user is what makes emails unique. The key is URI
+ * encoded because document IDs cannot contain slashes.
+ */
+const emailIndexDoc = (email: string) => {
+  return doc(db, USER_EMAILS_COLLECTION, encodeURIComponent(normalizeEmail(email)));
+};
+
+/**
+ * Builds the history document for a write, or null when no tracked field
+ * changed
+ *
+ * `before` and `after` are domain objects; dates inside the diff are stored
+ * as Firestore timestamps.
+ */
+const buildHistoryEntry = (
+  action: UserHistoryAction,
+  before: Partial<User>,
+  after: Partial<User>
+): DocumentData | null => {
+  const changes = diffUserFields(before, after);
+  if (changes.length === 0) return null;
+
+  return { action, changes, timestamp: serverTimestamp(), actor: getCurrentActor() };
+};
+
+const convertDocToHistoryEntry = (doc: QueryDocumentSnapshot, userId: string): UserHistoryEntry => {
+  const data = doc.data({ serverTimestamps: 'estimate' });
+  const toValue = (value: unknown) =>
+    (value instanceof Timestamp ? value.toDate() : value) as UserFieldChange['before'];
+
+  return {
+    id: doc.id,
+    userId,
+    action: data.action,
+    changes: (data.changes as UserFieldChange[]).map((change) => ({
+      field: change.field,
+      before: toValue(change.before),
+      after: toValue(change.after),
+    })),
+    timestamp: convertTimestampToDate(data.timestamp),
+    actor: data.actor ?? null,
+  };
+};
+
+/**
+ * Converts a partial update into domain values for the history diff and
+ * Firestore data to write, which always bumps `updatedAt`
+ *
+ * Custom fields are written by field path so other custom fields are kept.
+ */
+const prepareUpdate = (userInput: UpdateUserInput) => {
+  // Remove undefined properties to support partial updates
+  const updates = removeUndefinedProperties(userInput);
+  const { customFields, ...fields } = updates;
+
+  const data = {
+    ...fields,
+    ...(updates.dateOfBirth && {
+      dateOfBirth: convertDateToTimestamp(updates.dateOfBirth),
+    }),
+    ...Object.fromEntries(
+      Object.entries(customFields ?? {}).map(([key, value]) => [`customFields.${key}`, value])
+    ),
+    updatedAt: serverTimestamp(),
   };
+
+  return { updates: updates as Partial<User>, data };
+};
+
+/**
+ * Updates a user and records the change in its history atomically
+ *
+ * Runs in a transaction online. Offline the user is read from the cache and
+ * the writes are queued in a batch; a new email is then only checked against
+ * the cached email index, and the security rules reject the batch on sync if
+ * the email was taken in the meantime.
+ *
+ * @param updates - The change as domain values, used for the history diff
+ * @param data - The same change in Firestore format, e.g. with server timestamps
+ * @returns The user as it was before the update
+ */
+const updateWithHistory = async (
+  id: string,
+  action: UserHistoryAction,
+  updates: Partial<User>,
+  data: DocumentData
+): Promise<User> => {
+  const docRef = doc(db, USERS_COLLECTION, id);
+
+  const stageUpdate = async (read: DocumentReader, writer: DocumentWriter): Promise<User> => {
+    const snapshot = await read(docRef);
+    if (!snapshot) {
+      throw new NetworkError('This user is not available offline');
+    }
+    if (!snapshot.exists()) {
+      throw new NotFoundError();
+    }
+
+    const before = convertDocToUser(snapshot);
+    const entry = buildHistoryEntry(action, before, mergeUserUpdate(before, updates));
+
+    // Move the email reservation when the normalized email changes
+    const newEmail = updates.email;
+    if (newEmail !== undefined && normalizeEmail(newEmail) !== normalizeEmail(before.email)) {
+      const newIndexRef = emailIndexDoc(newEmail);
+      const oldIndexRef = emailIndexDoc(before.email);
+      const [newIndex, oldIndex] = await Promise.all([read(newIndexRef), read(oldIndexRef)]);
+
+      if (newIndex?.exists() && newIndex.data().userId !== id) {
+        throw new DuplicateEmailError(newEmail);
+      }
+
+      writer.set(newIndexRef, { userId: id });
+      // An uncached reservation of the user's own email is still theirs
+      if (!oldIndex || (oldIndex.exists() && oldIndex.data().userId === id)) {
+        writer.delete(oldIndexRef);
+      }
+    }
+
+    writer.update(docRef, data);
+    if (entry) {
+      writer.set(doc(historyCollection(id)), entry);
+    }
+    return before;
+  };
+
+  if (isOffline()) {
+    const batch = writeBatch(db);
+    const before = await stageUpdate(readFromCache, batch);
+    await commitBatch(batch);
+    return before;
+  }
+
+  return runTransaction(db, (transaction) =>
+    stageUpdate((documentRef) => transaction.get(documentRef), transaction)
+  );
+};
+
+/**
+ * Applies the same update to many users with batched writes
+ *
+ * Every user costs two writes (the update and its history entry), so a
+ * batch holds half of `MAX_BATCH_SIZE` users. Users are read first to diff
+ * their history; missing ones are reported as not found. Each batch is
+ * atomic, so when a batch fails every user in it is reported as failed while
+ * the other batches still go through.
+ */
+const updateInBatches = async (
+  ids: string[],
+  action: UserHistoryAction,
+  updates: Partial<User>,
+  data: DocumentData
+): Promise<BulkWriteResult> => {
+  const result: BulkWriteResult = { succeeded: [], failed: [] };
+
+  for (const batchIds of chunk(ids, MAX_BATCH_SIZE / 2)) {
+    let pendingIds = batchIds;
+
+    try {
+      const snapshots = await Promise.all(
+        batchIds.map((id) => readDoc(doc(db, USERS_COLLECTION, id)))
+      );
+      const batch = writeBatch(db);
+
+      for (const snapshot of snapshots) {
+        if (!snapshot.exists()) {
+          result.failed.push({ id: snapshot.id, message: new NotFoundError().message });
+          continue;
+        }
+
+        const before = convertDocToUser(snapshot);
+        const entry = buildHistoryEntry(action, before, mergeUserUpdate(before, updates));
+
+        batch.update(snapshot.ref, data);
+        if (entry) {
+          batch.set(doc(historyCollection(snapshot.id)), entry);
+        }
+      }
+
+      pendingIds = snapshots.filter((snapshot) => snapshot.exists()).map((snapshot) => snapshot.id);
+      await commitBatch(batch);
+      result.succeeded.push(...pendingIds);
+    } catch (error) {
+      console.error('Error committing batch:', error);
+      const { message } = convertFirestoreError(error, 'Failed to write batch');
+      result.failed.push(...pendingIds.map((id) => ({ id, message })));
+    }
+  }
+
+  return result;
+};
+
+const orderingConstraint = (ordering: Partial<UserOrdering>): QueryConstraint => {
+  return orderBy(
+    ordering.sortBy ?? DEFAULT_USER_ORDERING.sortBy,
+    ordering.sortOrder ?? DEFAULT_USER_ORDERING.sortOrder
+  );
 };
 
 /**
  * User Repository Service
  *
- * Implements the Repository Pattern for User entities for CRUD operations
- * that completely hides the Firestore implementation details.
+ * Firestore implementation of the `UserRepository` contract. Hides the
+ * Firestore implementation details behind CRUD operations on User entities.
+ * Application code should go through `@/service` rather than importing
+ * this module directly, so the backend stays swappable.
  *
  * Each method:
  * 1. Takes domain objects as parameters
@@ -87,7 +445,7 @@ const convertDocToUser = (doc: any): User => {
  * 3. Centralizes error handling with meaningful error messages
  * 4. Returns domain objects (not Firestore documents)
  */
-export const userService = {
+export const userService: UserRepository = {
   /**
    * Creates a new user in the database
    *
@@ -95,13 +453,18 @@ export const userService = {
    * - Timestamp conversion for dates
    * - Adding server-generated timestamps for audit fields
    * - Removing undefined properties not supported by Firestore
+   * - Reserving the email and recording a `create` history entry in the
+   *   same transaction
    *
    * @param userInput - User creation data transfer object
    * @returns Promise resolving to the created user with ID
+   * @throws DuplicateEmailError if another user has the email
    * @throws Error if creation fails
    */
   async createUser(userInput: CreateUserInput): Promise<User> {
     try {
+      assertValidUserInput(userInput);
+
       // Use server timestamp for consistent time tracking across clients
       const now = serverTimestamp();
       const cleanedInput = removeUndefinedProperties(userInput);
@@ -114,11 +477,42 @@ export const userService = {
         }),
         createdAt: now,
         updatedAt: now,
+        deletedAt: null,
+      };
+
+      // Write the user, its email reservation and first history entry atomically
+      const docRef = doc(collection(db, USERS_COLLECTION));
+      const emailRef = emailIndexDoc(userInput.email);
+
+      const stageCreate = (writer: DocumentWriter) => {
+        writer.set(docRef, userDoc);
+        writer.set(emailRef, { userId: docRef.id });
+
+        const entry = buildHistoryEntry('create', {}, cleanedInput);
+        if (entry) {
+          writer.set(doc(historyCollection(docRef.id)), entry);
+        }
       };
 
-      // Perform database operations
-      const docRef = await addDoc(collection(db, USERS_COLLECTION), userDoc);
-      const newDoc = await getDoc(docRef);
+      if (isOffline()) {
+        // Queued without the email check; the security rules refuse to hand
+        // over an existing reservation, so a taken email fails on sync
+        if ((await readFromCache(emailRef))?.exists()) {
+          throw new DuplicateEmailError(userInput.email);
+        }
+        const batch = writeBatch(db);
+        stageCreate(batch);
+        await commitBatch(batch);
+      } else {
+        await runTransaction(db, async (transaction) => {
+          if ((await transaction.get(emailRef)).exists()) {
+            throw new DuplicateEmailError(userInput.email);
+          }
+          stageCreate(transaction);
+        });
+      }
+
+      const newDoc = await readDoc(docRef);
 
       // Validate operation success
       if (!newDoc.exists()) {
@@ -130,29 +524,70 @@ export const userService = {
     } catch (error) {
       // Centralized error handling with meaningful messages
       console.error('Error creating user:', error);
-      throw new Error(error instanceof Error ? error.message : 'Failed to create user');
+      throw convertFirestoreError(error, 'Failed to create user');
     }
   },
 
   /**
-   * Retrieves all users from the database
+   * Retrieves all active users from the database
    *
-   * Fetches users sorted by creation date (newest first) and transforms
-   * each Firestore document to a domain User entity.
+   * Fetches users that are not in the trash sorted by creation date (newest
+   * first) and transforms each Firestore document to a domain User entity.
    *
    * @returns Promise resolving to array of User entities
    * @throws Error if fetching fails
    */
   async getUsers(): Promise<User[]> {
     try {
-      const q = query(collection(db, USERS_COLLECTION), orderBy('createdAt', 'desc'));
-      const querySnapshot = await getDocs(q);
+      const q = query(
+        collection(db, USERS_COLLECTION),
+        activeUsersConstraint(),
+        orderBy('createdAt', 'desc')
+      );
+      const querySnapshot = await readDocs(q);
 
       // Map each document to a domain User entity
-      return querySnapshot.docs.map(convertDocToUser);
+      return querySnapshot.docs.map((doc) => convertDocToUser(doc));
     } catch (error) {
       console.error('Error fetching users:', error);
-      throw new Error(error instanceof Error ? error.message : 'Failed to fetch users');
+      throw convertFirestoreError(error, 'Failed to fetch users');
+    }
+  },
+
+  /**
+   * Retrieves one page of users
+   *
+   * Pushes ordering into the Firestore query and continues after the cursor
+   * document with `startAfter`. One extra document is requested to tell
+   * whether another page follows without issuing a second query.
+   *
+   * @param pageQuery - Page size, ordering and cursor of the previous page
+   * @returns Promise resolving to the page of users and the next cursor
+   * @throws Error if fetching fails
+   */
+  async getUsersPage({ pageSize, cursor, ...ordering }) {
+    try {
+      const constraints: QueryConstraint[] = [
+        activeUsersConstraint(),
+        orderingConstraint(ordering),
+      ];
+      if (cursor) {
+        constraints.push(startAfter(cursor as QueryDocumentSnapshot));
+      }
+      constraints.push(limit(pageSize + 1));
+
+      const querySnapshot = await readDocs(query(collection(db, USERS_COLLECTION), ...constraints));
+      const pageDocs = querySnapshot.docs.slice(0, pageSize);
+      const hasMore = querySnapshot.docs.length > pageSize;
+
+      return {
+        users: pageDocs.map((doc) => convertDocToUser(doc)),
+        cursor: hasMore ? (pageDocs[pageDocs.length - 1] ?? null) : null,
+        hasMore,
+      };
+    } catch (error) {
+      console.error('Error fetching users page:', error);
+      throw convertFirestoreError(error, 'Failed to fetch users');
     }
   },
 
@@ -169,7 +604,7 @@ export const userService = {
   async getUserById(id: string): Promise<User | null> {
     try {
       const docRef = doc(db, USERS_COLLECTION, id);
-      const docSnap = await getDoc(docRef);
+      const docSnap = await readDoc(docRef);
 
       // Handle non-existent user case
       if (!docSnap.exists()) {
@@ -179,7 +614,7 @@ export const userService = {
       return convertDocToUser(docSnap);
     } catch (error) {
       console.error('Error fetching user:', error);
-      throw new Error(error instanceof Error ? error.message : 'Failed to fetch user');
+      throw convertFirestoreError(error, 'Failed to fetch user');
     }
   },
 
@@ -188,63 +623,279 @@ export const userService = {
    *
    * Handles partial updates with a flexible input model that allows
    * updating only specific fields. Automatically updates the updatedAt
-   * timestamp to maintain audit trail.
+   * timestamp and records the changed fields in the user's history within
+   * the same transaction.
    *
    * @param id - ID of user to update
    * @param userInput - Partial user data with fields to update
    * @returns Promise resolving to updated User entity
+   * @throws DuplicateEmailError if the new email belongs to another user
    * @throws Error if user doesn't exist or update fails
    */
   async updateUser(id: string, userInput: UpdateUserInput): Promise<User> {
     try {
-      const docRef = doc(db, USERS_COLLECTION, id);
-
-      // Remove undefined properties to support partial updates
-      const cleanedUpdateData = removeUndefinedProperties(userInput);
+      assertValidUserInput(userInput, { partial: true });
+      const { updates, data } = prepareUpdate(userInput);
+      await updateWithHistory(id, 'update', updates, data);
 
-      // Transform and prepare data for Firestore update
-      const updatedData = {
-        ...cleanedUpdateData,
-        ...(cleanedUpdateData.dateOfBirth && {
-          dateOfBirth: convertDateToTimestamp(cleanedUpdateData.dateOfBirth),
-        }),
-        updatedAt: serverTimestamp(), // Always update the timestamp
-      };
-
-      await updateDoc(docRef, updatedData);
-
-      // Verify update and retrieve the complete updated document
-      const updatedDoc = await getDoc(docRef);
+      // Retrieve the complete updated document
+      const updatedDoc = await readDoc(doc(db, USERS_COLLECTION, id));
       if (!updatedDoc.exists()) {
-        throw new Error('User not found after update');
+        throw new NotFoundError('User not found after update');
       }
 
       return convertDocToUser(updatedDoc);
     } catch (error) {
       console.error('Error updating user:', error);
-      throw new Error(error instanceof Error ? error.message : 'Failed to update user');
+      throw convertFirestoreError(error, 'Failed to update user');
     }
   },
 
   /**
-   * Deletes a user from the database
+   * Checks the email index for another user with the same email
+   */
+  async isEmailAvailable(email: string, excludeUserId?: string): Promise<boolean> {
+    try {
+      const snapshot = await readDoc(emailIndexDoc(email));
+      return !snapshot.exists() || snapshot.data().userId === excludeUserId;
+    } catch (error) {
+      console.error('Error checking email:', error);
+      throw convertFirestoreError(error, 'Failed to check email');
+    }
+  },
+
+  /**
+   * Moves a user to the trash
    *
-   * Performs a hard delete of the user record. Does not validate
-   * user existence before deletion (Firestore treats deleting
-   * non-existent documents as a no-op).
+   * Sets `deletedAt` instead of deleting the document so the user can be
+   * restored, and records a `delete` history entry.
    *
    * @param id - ID of user to delete
+   * @returns Promise that resolves when the user is in the trash
+   * @throws Error if user doesn't exist or the update fails
+   */
+  async deleteUser(id: string): Promise<void> {
+    try {
+      await updateWithHistory(
+        id,
+        'delete',
+        { deletedAt: new Date() },
+        { deletedAt: serverTimestamp() }
+      );
+    } catch (error) {
+      console.error('Error deleting user:', error);
+      throw convertFirestoreError(error, 'Failed to delete user');
+    }
+  },
+
+  /**
+   * Takes a user out of the trash
+   *
+   * @param id - ID of user to restore
+   * @returns Promise resolving to the restored User entity
+   * @throws Error if user doesn't exist or the update fails
+   */
+  async restoreUser(id: string): Promise<User> {
+    try {
+      await updateWithHistory(id, 'restore', { deletedAt: null }, { deletedAt: null });
+
+      const restoredDoc = await readDoc(doc(db, USERS_COLLECTION, id));
+      if (!restoredDoc.exists()) {
+        throw new NotFoundError('User not found after restore');
+      }
+
+      return convertDocToUser(restoredDoc);
+    } catch (error) {
+      console.error('Error restoring user:', error);
+      throw convertFirestoreError(error, 'Failed to restore user');
+    }
+  },
+
+  /**
+   * Permanently deletes a user
+   *
+   * Performs a hard delete of the user record and releases its email.
+   * Firestore does not delete subcollections with their parent, so the
+   * history entries are removed first. Deleting a non-existent user is a
+   * no-op.
+   *
+   * @param id - ID of user to purge
    * @returns Promise that resolves when deletion is complete
    * @throws Error if deletion operation fails
    */
-  async deleteUser(id: string): Promise<void> {
+  async purgeUser(id: string): Promise<void> {
     try {
+      // The history to delete and the email to release can only be trusted
+      // when read from the server
+      if (isOffline()) {
+        throw new NetworkError('Permanently deleting users requires a connection');
+      }
+
+      const historySnapshot = await getDocs(historyCollection(id));
+      for (const historyDocs of chunk(historySnapshot.docs, MAX_BATCH_SIZE)) {
+        const batch = writeBatch(db);
+        historyDocs.forEach((historyDoc) => batch.delete(historyDoc.ref));
+        await batch.commit();
+      }
+
       const docRef = doc(db, USERS_COLLECTION, id);
-      await deleteDoc(docRef);
+      await runTransaction(db, async (transaction) => {
+        const snapshot = await transaction.get(docRef);
+        if (!snapshot.exists()) return;
+
+        const emailRef = emailIndexDoc(convertDocToUser(snapshot).email);
+        const emailIndex = await transaction.get(emailRef);
+        if (emailIndex.exists() && emailIndex.data().userId === id) {
+          transaction.delete(emailRef);
+        }
+        transaction.delete(docRef);
+      });
     } catch (error) {
-      console.error('Error deleting user:', error);
-      throw new Error(error instanceof Error ? error.message : 'Failed to delete user');
+      console.error('Error purging user:', error);
+      throw convertFirestoreError(error, 'Failed to permanently delete user');
+    }
+  },
+
+  /**
+   * Retrieves the users in the trash, most recently deleted first
+   *
+   * @returns Promise resolving to array of deleted User entities
+   * @throws Error if fetching fails
+   */
+  async getDeletedUsers(): Promise<User[]> {
+    try {
+      const q = query(
+        collection(db, USERS_COLLECTION),
+        where('deletedAt', '!=', null),
+        orderBy('deletedAt', 'desc')
+      );
+      const querySnapshot = await readDocs(q);
+
+      return querySnapshot.docs.map((doc) => convertDocToUser(doc));
+    } catch (error) {
+      console.error('Error fetching deleted users:', error);
+      throw convertFirestoreError(error, 'Failed to fetch deleted users');
+    }
+  },
+
+  /**
+   * Retrieves the history of a user, newest first
+   *
+   * @param userId - ID of the user whose history to retrieve
+   * @returns Promise resolving to the recorded history entries
+   * @throws Error if fetching fails
+   */
+  async getUserHistory(userId: string): Promise<UserHistoryEntry[]> {
+    try {
+      const q = query(historyCollection(userId), orderBy('timestamp', 'desc'));
+      const querySnapshot = await readDocs(q);
+
+      return querySnapshot.docs.map((doc) => convertDocToHistoryEntry(doc, userId));
+    } catch (error) {
+      console.error('Error fetching user history:', error);
+      throw convertFirestoreError(error, 'Failed to fetch user history');
+    }
+  },
+
+  /**
+   * Applies the same partial update to several users with batched writes
+   *
+   * @param ids - IDs of the users to update
+   * @param userInput - Partial user data applied to every user
+   * @returns Promise resolving to the IDs that were and were not updated
+   */
+  async bulkUpdateUsers(ids: string[], userInput: UpdateUserInput): Promise<BulkWriteResult> {
+    // Every user would end up with the same email
+    if (userInput.email !== undefined) {
+      return { succeeded: [], failed: ids.map((id) => ({ id, message: BULK_EMAIL_MESSAGE })) };
+    }
+
+    try {
+      assertValidUserInput(userInput, { partial: true });
+    } catch (error) {
+      const { message } = toUserServiceError(error);
+      return { succeeded: [], failed: ids.map((id) => ({ id, message })) };
     }
+
+    const { updates, data } = prepareUpdate(userInput);
+    return updateInBatches(ids, 'update', updates, data);
+  },
+
+  /**
+   * Moves several users to the trash with batched writes
+   *
+   * @param ids - IDs of the users to delete
+   * @returns Promise resolving to the IDs that were and were not deleted
+   */
+  async bulkDeleteUsers(ids: string[]): Promise<BulkWriteResult> {
+    return updateInBatches(
+      ids,
+      'delete',
+      { deletedAt: new Date() },
+      { deletedAt: serverTimestamp() }
+    );
+  },
+
+  /**
+   * Takes several users out of the trash with batched writes
+   *
+   * @param ids - IDs of the users to restore
+   * @returns Promise resolving to the IDs that were and were not restored
+   */
+  async bulkRestoreUsers(ids: string[]): Promise<BulkWriteResult> {
+    return updateInBatches(ids, 'restore', { deletedAt: null }, { deletedAt: null });
+  },
+
+  /**
+   * Subscribes to real-time changes of the users collection
+   *
+   * Orders (and optionally limits) the listened query like `getUsersPage`
+   * and translates Firestore document changes into domain `UserChange`
+   * events. Pending server timestamps of local writes are estimated so
+   * optimistic snapshots never carry null dates.
+   *
+   * @param subscriptionQuery - Ordering, start and maximum number of users to listen to
+   * @param onChange - Receives each batch of incremental changes
+   * @param onError - Receives listener failures (e.g. permission denied)
+   * @returns Function that detaches the listener
+   */
+  subscribeToUsers({ limit: maxUsers, startAt: start, ...ordering }, onChange, onError) {
+    const constraints = [activeUsersConstraint(), orderingConstraint(ordering)];
+    if (start) {
+      constraints.push(startAt(start as QueryDocumentSnapshot));
+    }
+    if (maxUsers !== undefined) {
+      constraints.push(limit(maxUsers));
+    }
+    const q = query(collection(db, USERS_COLLECTION), ...constraints);
+
+    // Metadata changes report when a locally written user reaches the server
+    const options = { includeMetadataChanges: true };
+
+    return onSnapshot(
+      q,
+      options,
+      (snapshot) => {
+        const changes = snapshot.docChanges(options).map((change): UserChange => {
+          if (change.type === 'removed') {
+            return { type: 'removed', id: change.doc.id };
+          }
+
+          return {
+            type: change.type,
+            user: convertDocToUser(change.doc),
+            index: change.newIndex,
+            pendingSync: change.doc.metadata.hasPendingWrites,
+          };
+        });
+
+        onChange(changes, snapshot.docs[snapshot.docs.length - 1] ?? null);
+      },
+      (error) => {
+        console.error('Error listening to users:', error);
+        onError?.(convertFirestoreError(error, 'Failed to listen to users'));
+      }
+    );
   },
 };
 
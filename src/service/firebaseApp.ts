@@ -0,0 +1,36 @@
+/// <reference types="vite/client" />
+import { initializeApp } from 'firebase/app';
+
+/**
+ * Firebase Configuration
+ *
+ * Loads configuration values from environment variables to avoid hardcoding
+ */
+const firebaseConfig = {
+  apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
+  authDomain: import.meta.env.VITE_FIREBASE_AUTH_DOMAIN,
+  projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID,
+  storageBucket: import.meta.env.VITE_FIREBASE_STORAGE_BUCKET,
+  messagingSenderId: import.meta.env.VITE_FIREBASE_MESSAGING_SENDER_ID,
+  appId: import.meta.env.VITE_FIREBASE_APP_ID,
+  measurementId: import.meta.env.VITE_FIREBASE_MEASUREMENT_ID,
+};
+
+/**
+ * Shared Firebase app instance
+ *
+ * Every Firebase module (Firestore, Auth) is initialized from this app so
+ * they share configuration. Like the modules using it, it is only imported
+ * when the Firebase backend is selected.
+ */
+export const app = initializeApp(firebaseConfig);
+
+/**
+ * Splits an emulator `host:port` setting, returning null when unset
+ */
+export const parseEmulatorHost = (value: string | undefined) => {
+  if (!value) return null;
+
+  const [host, port] = value.split(':');
+  return host && port ? { host, port: Number(port) } : null;
+};
@@ -0,0 +1,97 @@
+import {
+  getAuth,
+  connectAuthEmulator,
+  signInWithEmailAndPassword,
+  signOut as firebaseSignOut,
+  onAuthStateChanged as firebaseOnAuthStateChanged,
+} from 'firebase/auth';
+import type { User as FirebaseUser } from 'firebase/auth';
+import { FirebaseError } from 'firebase/app';
+import { isUserRole } from '@/models/auth';
+import type { AuthUser } from '@/models/auth';
+import type { AuthProvider } from './authProvider';
+import { app, parseEmulatorHost } from './firebaseApp';
+
+const auth = getAuth(app);
+
+const authEmulator = parseEmulatorHost(import.meta.env.VITE_FIREBASE_AUTH_EMULATOR_HOST);
+if (authEmulator) {
+  connectAuthEmulator(auth, `http://${authEmulator.host}:${authEmulator.port}`, {
+    disableWarnings: true,
+  });
+}
+
+/**
+ * Firebase Auth error codes mapped to messages that are safe to show on the
+ * sign-in form
+ */
+const AUTH_ERROR_MESSAGES: Record<string, string> = {
+  'auth/invalid-credential': 'Incorrect email or password',
+  'auth/invalid-email': 'Incorrect email or password',
+  'auth/user-not-found': 'Incorrect email or password',
+  'auth/wrong-password': 'Incorrect email or password',
+  'auth/user-disabled': 'This account has been disabled',
+  'auth/too-many-requests': 'Too many attempts, please try again later',
+  'auth/network-request-failed': 'Could not reach the sign-in service',
+};
+
+/**
+ * Converts a Firebase account to the domain `AuthUser`
+ *
+ * The role is read from the `role` custom claim, which only the Admin SDK can
+ * set, so accounts without one get the least privileged role.
+ */
+const convertFirebaseUser = async (firebaseUser: FirebaseUser): Promise<AuthUser> => {
+  const { claims } = await firebaseUser.getIdTokenResult();
+
+  return {
+    uid: firebaseUser.uid,
+    email: firebaseUser.email ?? '',
+    displayName: firebaseUser.displayName,
+    role: isUserRole(claims.role) ? claims.role : 'viewer',
+  };
+};
+
+/**
+ * Firebase Authentication Provider
+ *
+ * Email/password sign-in against Firebase Auth, or against the Auth emulator
+ * when `VITE_FIREBASE_AUTH_EMULATOR_HOST` is set.
+ */
+export const authProvider: AuthProvider = {
+  async signIn(email: string, password: string): Promise<AuthUser> {
+    try {
+      const credential = await signInWithEmailAndPassword(auth, email, password);
+      return await convertFirebaseUser(credential.user);
+    } catch (error) {
+      console.error('Error signing in:', error);
+      const message = error instanceof FirebaseError ? AUTH_ERROR_MESSAGES[error.code] : undefined;
+      throw new Error(message ?? 'Failed to sign in');
+    }
+  },
+
+  async signOut(): Promise<void> {
+    try {
+      await firebaseSignOut(auth);
+    } catch (error) {
+      console.error('Error signing out:', error);
+      throw new Error(error instanceof Error ? error.message : 'Failed to sign out');
+    }
+  },
+
+  onAuthStateChanged(callback: (user: AuthUser | null) => void) {
+    return firebaseOnAuthStateChanged(auth, (firebaseUser) => {
+      if (!firebaseUser) {
+        callback(null);
+        return;
+      }
+
+      convertFirebaseUser(firebaseUser)
+        .then(callback)
+        .catch((error) => {
+          console.error('Error reading account role:', error);
+          callback(null);
+        });
+    });
+  },
+};
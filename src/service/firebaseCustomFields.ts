@@ -0,0 +1,144 @@
+import {
+  collection,
+  deleteDoc,
+  doc,
+  onSnapshot,
+  orderBy,
+  query,
+  runTransaction,
+  writeBatch,
+} from 'firebase/firestore';
+import type { DocumentSnapshot } from 'firebase/firestore';
+import { normalizeCustomFieldInput, sortCustomFields } from '@/models/customField';
+import type {
+  CustomFieldDefinition,
+  CustomFieldInput,
+  CustomFieldUpdate,
+} from '@/models/customField';
+import { convertFirestoreError, db, readDocs } from './firebase';
+import { ConflictError, NotFoundError } from './errors';
+import { assertValidCustomFieldInput } from './validation';
+import type { CustomFieldRepository } from './customFieldRepository';
+
+// Definitions are keyed by field key, which is what keeps keys unique
+const USER_FIELDS_COLLECTION = 'userFields';
+
+const FIELD_NOT_FOUND_MESSAGE = 'Field not found';
+
+const fieldsQuery = () => query(collection(db, USER_FIELDS_COLLECTION), orderBy('order'));
+
+const convertDocToField = (snapshot: DocumentSnapshot): CustomFieldDefinition => {
+  const data = snapshot.data() ?? {};
+  return {
+    key: snapshot.id,
+    label: data.label,
+    type: data.type,
+    required: data.required ?? false,
+    options: data.options ?? [],
+    validation: data.validation ?? {},
+    order: data.order ?? 0,
+  };
+};
+
+/**
+ * Firestore implementation of the `CustomFieldRepository` contract
+ *
+ * Creates and updates run in transactions so a key is never claimed twice
+ * and an update never resurrects a field deleted in the meantime.
+ */
+export const customFieldRepository: CustomFieldRepository = {
+  async getFields(): Promise<CustomFieldDefinition[]> {
+    try {
+      const snapshot = await readDocs(fieldsQuery());
+      return sortCustomFields(snapshot.docs.map(convertDocToField));
+    } catch (error) {
+      console.error('Error fetching custom fields:', error);
+      throw convertFirestoreError(error, 'Failed to fetch custom fields');
+    }
+  },
+
+  async createField(input: CustomFieldInput): Promise<CustomFieldDefinition> {
+    try {
+      const { key, ...settings } = normalizeCustomFieldInput(input);
+      assertValidCustomFieldInput({ key, ...settings });
+
+      const existing = await readDocs(fieldsQuery());
+      const order =
+        Math.max(-1, ...existing.docs.map((snapshot) => snapshot.data().order ?? 0)) + 1;
+      const docRef = doc(db, USER_FIELDS_COLLECTION, key);
+
+      await runTransaction(db, async (transaction) => {
+        if ((await transaction.get(docRef)).exists()) {
+          throw new ConflictError('A field with this key already exists', 'key');
+        }
+        transaction.set(docRef, { ...settings, order });
+      });
+
+      return { key, ...settings, order };
+    } catch (error) {
+      console.error('Error creating custom field:', error);
+      throw convertFirestoreError(error, 'Failed to create custom field');
+    }
+  },
+
+  async updateField(key: string, input: CustomFieldUpdate): Promise<CustomFieldDefinition> {
+    try {
+      const docRef = doc(db, USER_FIELDS_COLLECTION, key);
+
+      return await runTransaction(db, async (transaction) => {
+        const snapshot = await transaction.get(docRef);
+        if (!snapshot.exists()) {
+          throw new NotFoundError(FIELD_NOT_FOUND_MESSAGE);
+        }
+
+        const current = convertDocToField(snapshot);
+        const updated = {
+          ...normalizeCustomFieldInput({ ...current, ...input }),
+          key,
+          order: current.order,
+        };
+        assertValidCustomFieldInput(updated);
+
+        const { key: _key, ...settings } = updated;
+        transaction.set(docRef, settings);
+        return updated;
+      });
+    } catch (error) {
+      console.error('Error updating custom field:', error);
+      throw convertFirestoreError(error, 'Failed to update custom field');
+    }
+  },
+
+  async deleteField(key: string): Promise<void> {
+    try {
+      await deleteDoc(doc(db, USER_FIELDS_COLLECTION, key));
+    } catch (error) {
+      console.error('Error deleting custom field:', error);
+      throw convertFirestoreError(error, 'Failed to delete custom field');
+    }
+  },
+
+  async reorderFields(keys: string[]): Promise<void> {
+    try {
+      const batch = writeBatch(db);
+      keys.forEach((key, order) => {
+        batch.update(doc(db, USER_FIELDS_COLLECTION, key), { order });
+      });
+      await batch.commit();
+    } catch (error) {
+      console.error('Error reordering custom fields:', error);
+      throw convertFirestoreError(error, 'Failed to reorder custom fields');
+    }
+  },
+
+  subscribeToFields(onChange, onError) {
+    return onSnapshot(
+      fieldsQuery(),
+      (snapshot) => onChange(sortCustomFields(snapshot.docs.map(convertDocToField))),
+      (error) => {
+        console.error('Error in custom field subscription:', error);
+        onError?.(convertFirestoreError(error, 'Failed to subscribe to custom fields'));
+      }
+    );
+  },
+};
@@ -0,0 +1,161 @@
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  onSnapshot,
+  or,
+  query,
+  runTransaction,
+  setDoc,
+  where,
+} from 'firebase/firestore';
+import type { DocumentSnapshot } from 'firebase/firestore';
+import { sortSavedViews } from '@/models/savedView';
+import type { SavedView, SavedViewInput, SavedViewUpdate } from '@/models/savedView';
+import { getCurrentActor } from './actor';
+import { convertFirestoreError, db, readDoc } from './firebase';
+import { NotFoundError, PermissionDeniedError } from './errors';
+import { assertValidSavedViewInput } from './validation';
+import type { SavedViewRepository } from './savedViewRepository';
+
+const SAVED_VIEWS_COLLECTION = 'savedViews';
+// Per-account settings, keyed by auth uid
+const USER_PREFERENCES_COLLECTION = 'userPreferences';
+
+const VIEW_NOT_FOUND_MESSAGE = 'View not found';
+const SIGN_IN_MESSAGE = 'Sign in to use saved views';
+const NOT_OWNER_MESSAGE = 'Only the owner of a view can change it';
+
+const requireActor = () => {
+  const actor = getCurrentActor();
+  if (!actor) {
+    throw new PermissionDeniedError(SIGN_IN_MESSAGE);
+  }
+  return actor;
+};
+
+// Security rules only let each account read shared views and its own, so the
+// query has to ask for exactly those
+const visibleViewsQuery = (ownerId: string) =>
+  query(
+    collection(db, SAVED_VIEWS_COLLECTION),
+    or(where('visibility', '==', 'shared'), where('ownerId', '==', ownerId))
+  );
+
+const convertDocToView = (snapshot: DocumentSnapshot): SavedView => {
+  const data = snapshot.data() ?? {};
+  return {
+    id: snapshot.id,
+    name: data.name,
+    visibility: data.visibility ?? 'private',
+    query: data.query ?? '',
+    ownerId: data.ownerId,
+    ownerName: data.ownerName ?? '',
+  };
+};
+
+/**
+ * Firestore implementation of the `SavedViewRepository` contract
+ *
+ * Ownership is also enforced by the security rules; the checks here give a
+ * clearer error before the write is attempted.
+ */
+export const savedViewRepository: SavedViewRepository = {
+  async createView(input: SavedViewInput): Promise<SavedView> {
+    try {
+      const actor = requireActor();
+      const normalized = { ...input, name: input.name.trim() };
+      assertValidSavedViewInput(normalized);
+
+      const data = { ...normalized, ownerId: actor.id, ownerName: actor.name };
+      const docRef = await addDoc(collection(db, SAVED_VIEWS_COLLECTION), data);
+      return { id: docRef.id, ...data };
+    } catch (error) {
+      console.error('Error creating saved view:', error);
+      throw convertFirestoreError(error, 'Failed to save view');
+    }
+  },
+
+  async updateView(id: string, input: SavedViewUpdate): Promise<SavedView> {
+    try {
+      const actor = requireActor();
+      const docRef = doc(db, SAVED_VIEWS_COLLECTION, id);
+
+      return await runTransaction(db, async (transaction) => {
+        const snapshot = await transaction.get(docRef);
+        if (!snapshot.exists()) {
+          throw new NotFoundError(VIEW_NOT_FOUND_MESSAGE);
+        }
+
+        const current = convertDocToView(snapshot);
+        if (current.ownerId !== actor.id) {
+          throw new PermissionDeniedError(NOT_OWNER_MESSAGE);
+        }
+
+        const updated = { ...current, ...input, name: (input.name ?? current.name).trim() };
+        assertValidSavedViewInput(updated);
+
+        const { id: _id, ...data } = updated;
+        transaction.set(docRef, data);
+        return updated;
+      });
+    } catch (error) {
+      console.error('Error updating saved view:', error);
+      throw convertFirestoreError(error, 'Failed to update view');
+    }
+  },
+
+  async deleteView(id: string): Promise<void> {
+    try {
+      requireActor();
+      await deleteDoc(doc(db, SAVED_VIEWS_COLLECTION, id));
+    } catch (error) {
+      console.error('Error deleting saved view:', error);
+      throw convertFirestoreError(error, 'Failed to delete view');
+    }
+  },
+
+  async getDefaultViewId(): Promise<string | null> {
+    try {
+      const actor = requireActor();
+      const snapshot = await readDoc(doc(db, USER_PREFERENCES_COLLECTION, actor.id));
+      return snapshot.data()?.defaultViewId ?? null;
+    } catch (error) {
+      console.error('Error fetching default view:', error);
+      throw convertFirestoreError(error, 'Failed to fetch default view');
+    }
+  },
+
+  async setDefaultViewId(id: string | null): Promise<void> {
+    try {
+      const actor = requireActor();
+      await setDoc(
+        doc(db, USER_PREFERENCES_COLLECTION, actor.id),
+        { defaultViewId: id ?? deleteField() },
+        { merge: true }
+      );
+    } catch (error) {
+      console.error('Error setting default view:', error);
+      throw convertFirestoreError(error, 'Failed to set default view');
+    }
+  },
+
+  subscribeToViews(onChange, onError) {
+    const actor = getCurrentActor();
+    if (!actor) {
+      queueMicrotask(() => onError?.(new PermissionDeniedError(SIGN_IN_MESSAGE)));
+      return () => {};
+    }
+
+    return onSnapshot(
+      visibleViewsQuery(actor.id),
+      (snapshot) => onChange(sortSavedViews(snapshot.docs.map(convertDocToView))),
+      (error) => {
+        console.error('Error in saved view subscription:', error);
+        onError?.(convertFirestoreError(error, 'Failed to subscribe to saved views'));
+      }
+    );
+  },
+};
@@ -0,0 +1,69 @@
+import {
+  getStorage,
+  connectStorageEmulator,
+  ref,
+  uploadBytes,
+  getDownloadURL,
+  deleteObject,
+} from 'firebase/storage';
+import type { StorageReference } from 'firebase/storage';
+import { FirebaseError } from 'firebase/app';
+import { app, parseEmulatorHost } from './firebaseApp';
+import type { ProfilePictureStorage } from './profilePictureStorage';
+
+const storage = getStorage(app);
+
+const storageEmulator = parseEmulatorHost(import.meta.env.VITE_FIREBASE_STORAGE_EMULATOR_HOST);
+if (storageEmulator) {
+  connectStorageEmulator(storage, storageEmulator.host, storageEmulator.port);
+}
+
+const PROFILE_PICTURES_FOLDER = 'profilePictures';
+
+/**
+ * Resolves a download URL to its object, or null when the URL does not point
+ * at a profile picture in this bucket
+ */
+const refFromUrl = (url: string): StorageReference | null => {
+  try {
+    const pictureRef = ref(storage, url);
+    return pictureRef.parent?.fullPath === PROFILE_PICTURES_FOLDER ? pictureRef : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Firebase Storage implementation of profile picture storage
+ *
+ * Pictures get a random name so a replaced picture never shares a URL, and
+ * with it a browser cache entry, with the new one.
+ */
+export const profilePictureStorage: ProfilePictureStorage = {
+  async uploadProfilePicture(image: Blob): Promise<string> {
+    try {
+      const pictureRef = ref(storage, `${PROFILE_PICTURES_FOLDER}/${crypto.randomUUID()}`);
+      await uploadBytes(pictureRef, image, {
+        contentType: image.type,
+        cacheControl: 'public, max-age=31536000, immutable',
+      });
+      return await getDownloadURL(pictureRef);
+    } catch (error) {
+      console.error('Error uploading profile picture:', error);
+      throw new Error(error instanceof Error ? error.message : 'Failed to upload profile picture');
+    }
+  },
+
+  async deleteProfilePicture(url: string): Promise<void> {
+    const pictureRef = refFromUrl(url);
+    if (!pictureRef) return;
+
+    try {
+      await deleteObject(pictureRef);
+    } catch (error) {
+      if (error instanceof FirebaseError && error.code === 'storage/object-not-found') return;
+      console.error('Error deleting profile picture:', error);
+      throw new Error(error instanceof Error ? error.message : 'Failed to delete profile picture');
+    }
+  },
+};
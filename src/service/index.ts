@@ -0,0 +1,330 @@
+import { createLocalStorageUserRepository, createMemoryUserRepository } from './memory';
+import { createLocalAuthProvider } from './localAuth';
+import { createLocalProfilePictureStorage } from './localProfilePictureStorage';
+import {
+  createLocalCustomFieldRepository,
+  createLocalStorageCustomFieldRepository,
+} from './localCustomFields';
+import {
+  createLocalSavedViewRepository,
+  createLocalStorageSavedViewRepository,
+} from './localSavedViews';
+import type { AuthProvider } from './authProvider';
+import type { CustomFieldRepository } from './customFieldRepository';
+import type { ProfilePictureStorage } from './profilePictureStorage';
+import type { SavedViewRepository } from './savedViewRepository';
+import type { Unsubscribe, UserRepository, UserRepositoryBackend } from './userRepository';
+
+export type {
+  BulkWriteResult,
+  SortOrder,
+  Unsubscribe,
+  UserChange,
+  UserOrdering,
+  UserPage,
+  UserPageCursor,
+  UserPageQuery,
+  UserRepository,
+  UserRepositoryBackend,
+  UserSortField,
+  UserSubscriptionQuery,
+} from './userRepository';
+export { DEFAULT_USER_ORDERING, SERVER_SORT_FIELDS, isServerSortField } from './userRepository';
+export {
+  ConflictError,
+  DuplicateEmailError,
+  NetworkError,
+  NotFoundError,
+  PermissionDeniedError,
+  UserServiceError,
+  ValidationError,
+  toUserServiceError,
+} from './errors';
+export type { UserServiceErrorCode } from './errors';
+export type { AuthProvider } from './authProvider';
+export type { CustomFieldRepository } from './customFieldRepository';
+export type { ProfilePictureStorage } from './profilePictureStorage';
+export type { SavedViewRepository } from './savedViewRepository';
+export { getCurrentActor, setCurrentActor } from './actor';
+export { DEMO_ACCOUNTS, DEMO_PASSWORD } from './localAuth';
+
+const BACKENDS: UserRepositoryBackend[] = ['firestore', 'memory', 'localStorage'];
+
+/**
+ * Resolves the repository backend from `VITE_USER_REPOSITORY`
+ *
+ * Defaults to Firestore so existing deployments keep their behaviour; unknown
+ * values fall back to the default with a warning instead of failing at startup.
+ */
+export const resolveBackend = (
+  value: string | undefined = import.meta.env.VITE_USER_REPOSITORY
+): UserRepositoryBackend => {
+  if (!value) return 'firestore';
+  if ((BACKENDS as string[]).includes(value)) return value as UserRepositoryBackend;
+
+  console.warn(`Unknown VITE_USER_REPOSITORY "${value}", falling back to firestore`);
+  return 'firestore';
+};
+
+let repositoryPromise: Promise<UserRepository> | null = null;
+
+/**
+ * Lazily instantiates the configured repository
+ *
+ * The Firestore module is imported dynamically because it initializes the
+ * Firebase app at import time; the memory and localStorage backends must be
+ * able to run without any Firebase credentials.
+ */
+export const getUserRepository = (): Promise<UserRepository> => {
+  if (!repositoryPromise) {
+    const backend = resolveBackend();
+
+    switch (backend) {
+      case 'memory':
+        repositoryPromise = Promise.resolve(createMemoryUserRepository());
+        break;
+      case 'localStorage':
+        repositoryPromise = Promise.resolve(createLocalStorageUserRepository());
+        break;
+      default:
+        repositoryPromise = import('./firebase').then((module) => module.userService);
+    }
+  }
+
+  return repositoryPromise;
+};
+
+let customFieldRepositoryPromise: Promise<CustomFieldRepository> | null = null;
+
+/**
+ * Lazily instantiates the custom field repository matching the user
+ * repository backend
+ */
+export const getCustomFieldRepository = (): Promise<CustomFieldRepository> => {
+  if (!customFieldRepositoryPromise) {
+    switch (resolveBackend()) {
+      case 'memory':
+        customFieldRepositoryPromise = Promise.resolve(createLocalCustomFieldRepository());
+        break;
+      case 'localStorage':
+        customFieldRepositoryPromise = Promise.resolve(createLocalStorageCustomFieldRepository());
+        break;
+      default:
+        customFieldRepositoryPromise = import('./firebaseCustomFields').then(
+          (module) => module.customFieldRepository
+        );
+    }
+  }
+
+  return customFieldRepositoryPromise;
+};
+
+let savedViewRepositoryPromise: Promise<SavedViewRepository> | null = null;
+
+/**
+ * Lazily instantiates the saved view repository matching the user
+ * repository backend
+ */
+export const getSavedViewRepository = (): Promise<SavedViewRepository> => {
+  if (!savedViewRepositoryPromise) {
+    switch (resolveBackend()) {
+      case 'memory':
+        savedViewRepositoryPromise = Promise.resolve(createLocalSavedViewRepository());
+        break;
+      case 'localStorage':
+        savedViewRepositoryPromise = Promise.resolve(createLocalStorageSavedViewRepository());
+        break;
+      default:
+        savedViewRepositoryPromise = import('./firebaseSavedViews').then(
+          (module) => module.savedViewRepository
+        );
+    }
+  }
+
+  return savedViewRepositoryPromise;
+};
+
+let authProviderPromise: Promise<AuthProvider> | null = null;
+
+/**
+ * Lazily instantiates the auth provider matching the repository backend
+ *
+ * Firestore is paired with Firebase Auth so security rules can check the
+ * signed-in account; the other backends use the built-in demo accounts.
+ */
+export const getAuthProvider = (): Promise<AuthProvider> => {
+  if (!authProviderPromise) {
+    authProviderPromise =
+      resolveBackend() === 'firestore'
+        ? import('./firebaseAuth').then((module) => module.authProvider)
+        : Promise.resolve(createLocalAuthProvider());
+  }
+
+  return authProviderPromise;
+};
+
+let profilePictureStoragePromise: Promise<ProfilePictureStorage> | null = null;
+
+/**
+ * Lazily instantiates the profile picture storage matching the repository backend
+ *
+ * Firestore is paired with Firebase Storage; the other backends inline
+ * pictures in the user records.
+ */
+export const getProfilePictureStorage = (): Promise<ProfilePictureStorage> => {
+  if (!profilePictureStoragePromise) {
+    profilePictureStoragePromise =
+      resolveBackend() === 'firestore'
+        ? import('./firebaseStorage').then((module) => module.profilePictureStorage)
+        : Promise.resolve(createLocalProfilePictureStorage());
+  }
+
+  return profilePictureStoragePromise;
+};
+
+/**
+ * Application-wide user service
+ *
+ * Delegates every call to the configured repository so consumers depend only
+ * on the `UserRepository` contract, never on a concrete backend.
+ */
+export const userService: UserRepository = {
+  createUser: async (userInput) => (await getUserRepository()).createUser(userInput),
+  getUsers: async () => (await getUserRepository()).getUsers(),
+  getUsersPage: async (pageQuery) => (await getUserRepository()).getUsersPage(pageQuery),
+  getUserById: async (id) => (await getUserRepository()).getUserById(id),
+  updateUser: async (id, userInput) => (await getUserRepository()).updateUser(id, userInput),
+  isEmailAvailable: async (email, excludeUserId) =>
+    (await getUserRepository()).isEmailAvailable(email, excludeUserId),
+  deleteUser: async (id) => (await getUserRepository()).deleteUser(id),
+  restoreUser: async (id) => (await getUserRepository()).restoreUser(id),
+  purgeUser: async (id) => (await getUserRepository()).purgeUser(id),
+  getDeletedUsers: async () => (await getUserRepository()).getDeletedUsers(),
+  getUserHistory: async (userId) => (await getUserRepository()).getUserHistory(userId),
+  bulkUpdateUsers: async (ids, userInput) =>
+    (await getUserRepository()).bulkUpdateUsers(ids, userInput),
+  bulkDeleteUsers: async (ids) => (await getUserRepository()).bulkDeleteUsers(ids),
+  bulkRestoreUsers: async (ids) => (await getUserRepository()).bulkRestoreUsers(ids),
+
+  subscribeToUsers: (subscriptionQuery, onChange, onError) => {
+    let unsubscribe: Unsubscribe | null = null;
+    let cancelled = false;
+
+    getUserRepository()
+      .then((repository) => {
+        if (!cancelled) {
+          unsubscribe = repository.subscribeToUsers(subscriptionQuery, onChange, onError);
+        }
+      })
+      .catch((error) => onError?.(error instanceof Error ? error : new Error(String(error))));
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  },
+};
+
+/**
+ * Application-wide custom field service
+ *
+ * Delegates to the configured custom field repository, mirroring `userService`.
+ */
+export const customFieldService: CustomFieldRepository = {
+  getFields: async () => (await getCustomFieldRepository()).getFields(),
+  createField: async (input) => (await getCustomFieldRepository()).createField(input),
+  updateField: async (key, input) => (await getCustomFieldRepository()).updateField(key, input),
+  deleteField: async (key) => (await getCustomFieldRepository()).deleteField(key),
+  reorderFields: async (keys) => (await getCustomFieldRepository()).reorderFields(keys),
+
+  subscribeToFields: (onChange, onError) => {
+    let unsubscribe: Unsubscribe | null = null;
+    let cancelled = false;
+
+    getCustomFieldRepository()
+      .then((repository) => {
+        if (!cancelled) {
+          unsubscribe = repository.subscribeToFields(onChange, onError);
+        }
+      })
+      .catch((error) => onError?.(error instanceof Error ? error : new Error(String(error))));
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  },
+};
+
+/**
+ * Application-wide saved view service
+ *
+ * Delegates to the configured saved view repository, mirroring `userService`.
+ */
+export const savedViewService: SavedViewRepository = {
+  createView: async (input) => (await getSavedViewRepository()).createView(input),
+  updateView: async (id, input) => (await getSavedViewRepository()).updateView(id, input),
+  deleteView: async (id) => (await getSavedViewRepository()).deleteView(id),
+  getDefaultViewId: async () => (await getSavedViewRepository()).getDefaultViewId(),
+  setDefaultViewId: async (id) => (await getSavedViewRepository()).setDefaultViewId(id),
+
+  subscribeToViews: (onChange, onError) => {
+    let unsubscribe: Unsubscribe | null = null;
+    let cancelled = false;
+
+    getSavedViewRepository()
+      .then((repository) => {
+        if (!cancelled) {
+          unsubscribe = repository.subscribeToViews(onChange, onError);
+        }
+      })
+      .catch((error) => onError?.(error instanceof Error ? error : new Error(String(error))));
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  },
+};
+
+/**
+ * Application-wide profile picture service
+ *
+ * Delegates to the configured profile picture storage, mirroring `userService`.
+ */
+export const profilePictureService: ProfilePictureStorage = {
+  uploadProfilePicture: async (image) =>
+    (await getProfilePictureStorage()).uploadProfilePicture(image),
+  deleteProfilePicture: async (url) => (await getProfilePictureStorage()).deleteProfilePicture(url),
+};
+
+/**
+ * Application-wide auth service
+ *
+ * Delegates to the configured auth provider, mirroring `userService`.
+ */
+export const authService: AuthProvider = {
+  signIn: async (email, password) => (await getAuthProvider()).signIn(email, password),
+  signOut: async () => (await getAuthProvider()).signOut(),
+
+  onAuthStateChanged: (callback) => {
+    let unsubscribe: Unsubscribe | null = null;
+    let cancelled = false;
+
+    getAuthProvider()
+      .then((provider) => {
+        if (!cancelled) {
+          unsubscribe = provider.onAuthStateChanged(callback);
+        }
+      })
+      .catch((error) => {
+        console.error('Error loading auth provider:', error);
+        callback(null);
+      });
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  },
+};
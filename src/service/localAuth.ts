@@ -0,0 +1,82 @@
+import type { AuthUser } from '@/models/auth';
+import type { AuthProvider } from './authProvider';
+
+const SESSION_STORAGE_KEY = 'g2g-assessment:session';
+
+/**
+ * Password shared by every demo account
+ */
+export const DEMO_PASSWORD = 'password';
+
+/**
+ * Built-in accounts, one per role, for the memory and localStorage backends
+ */
+export const DEMO_ACCOUNTS: AuthUser[] = [
+  { uid: 'demo-admin', email: 'admin@example.com', displayName: 'Demo Admin', role: 'admin' },
+  { uid: 'demo-editor', email: 'editor@example.com', displayName: 'Demo Editor', role: 'editor' },
+  { uid: 'demo-viewer', email: 'viewer@example.com', displayName: 'Demo Viewer', role: 'viewer' },
+];
+
+const readSession = (): AuthUser | null => {
+  try {
+    const uid = sessionStorage.getItem(SESSION_STORAGE_KEY);
+    return DEMO_ACCOUNTS.find((account) => account.uid === uid) ?? null;
+  } catch {
+    return null;
+  }
+};
+
+const writeSession = (user: AuthUser | null) => {
+  try {
+    if (user) {
+      sessionStorage.setItem(SESSION_STORAGE_KEY, user.uid);
+    } else {
+      sessionStorage.removeItem(SESSION_STORAGE_KEY);
+    }
+  } catch {
+    // Sessions simply do not survive a reload when storage is unavailable
+  }
+};
+
+/**
+ * Creates an auth provider backed by the demo accounts
+ *
+ * Used with the memory and localStorage repositories so the app runs without
+ * Firebase. The session lasts for the browser tab, like the data in memory.
+ */
+export const createLocalAuthProvider = (): AuthProvider => {
+  let currentUser = readSession();
+  const listeners = new Set<(user: AuthUser | null) => void>();
+
+  const setCurrentUser = (user: AuthUser | null) => {
+    currentUser = user;
+    writeSession(user);
+    listeners.forEach((listener) => listener(user && { ...user }));
+  };
+
+  return {
+    async signIn(email: string, password: string): Promise<AuthUser> {
+      const account = DEMO_ACCOUNTS.find(
+        (candidate) => candidate.email === email.trim().toLowerCase()
+      );
+      if (!account || password !== DEMO_PASSWORD) {
+        throw new Error('Incorrect email or password');
+      }
+
+      setCurrentUser(account);
+      return { ...account };
+    },
+
+    async signOut(): Promise<void> {
+      setCurrentUser(null);
+    },
+
+    onAuthStateChanged(callback: (user: AuthUser | null) => void) {
+      listeners.add(callback);
+      callback(currentUser && { ...currentUser });
+      return () => {
+        listeners.delete(callback);
+      };
+    },
+  };
+};
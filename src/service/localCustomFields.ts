@@ -0,0 +1,149 @@
+import { normalizeCustomFieldInput, sortCustomFields } from '@/models/customField';
+import type {
+  CustomFieldDefinition,
+  CustomFieldInput,
+  CustomFieldUpdate,
+} from '@/models/customField';
+import { ConflictError, NotFoundError } from './errors';
+import { assertValidCustomFieldInput } from './validation';
+import type { CustomFieldRepository } from './customFieldRepository';
+
+/**
+ * Storage adapter for the local custom field repository, mirroring `UserStore`
+ */
+export interface CustomFieldStore {
+  load(): CustomFieldDefinition[];
+  save(fields: CustomFieldDefinition[]): void;
+}
+
+const LOCAL_STORAGE_KEY = 'g2g-assessment:customFields';
+
+const FIELD_NOT_FOUND_MESSAGE = 'Field not found';
+
+const cloneField = (field: CustomFieldDefinition): CustomFieldDefinition => ({
+  ...field,
+  options: [...field.options],
+  validation: { ...field.validation },
+});
+
+export const createVolatileCustomFieldStore = (): CustomFieldStore => {
+  let snapshot: CustomFieldDefinition[] = [];
+  return {
+    load: () => snapshot.map(cloneField),
+    save: (fields) => {
+      snapshot = fields.map(cloneField);
+    },
+  };
+};
+
+/**
+ * localStorage-backed store; corrupt or missing data is treated as no fields
+ */
+export const createLocalStorageCustomFieldStore = (key = LOCAL_STORAGE_KEY): CustomFieldStore => ({
+  load: () => {
+    try {
+      const raw = window.localStorage.getItem(key);
+      return raw ? (JSON.parse(raw) as CustomFieldDefinition[]).map(cloneField) : [];
+    } catch (error) {
+      console.error(`Error reading ${key} from localStorage:`, error);
+      return [];
+    }
+  },
+  save: (fields) => {
+    window.localStorage.setItem(key, JSON.stringify(fields));
+  },
+});
+
+/**
+ * Custom field repository for the memory and localStorage backends
+ */
+export const createLocalCustomFieldRepository = (
+  store: CustomFieldStore = createVolatileCustomFieldStore()
+): CustomFieldRepository => {
+  const listeners = new Set<(fields: CustomFieldDefinition[]) => void>();
+
+  const loadSorted = () => sortCustomFields(store.load());
+
+  const saveAndNotify = (fields: CustomFieldDefinition[]) => {
+    store.save(fields);
+    const sorted = loadSorted();
+    listeners.forEach((onChange) => onChange(sorted));
+  };
+
+  return {
+    async getFields(): Promise<CustomFieldDefinition[]> {
+      return loadSorted();
+    },
+
+    async createField(input: CustomFieldInput): Promise<CustomFieldDefinition> {
+      const normalized = normalizeCustomFieldInput(input);
+      assertValidCustomFieldInput(normalized);
+
+      const fields = store.load();
+      if (fields.some((field) => field.key === normalized.key)) {
+        throw new ConflictError('A field with this key already exists', 'key');
+      }
+
+      const field: CustomFieldDefinition = {
+        ...normalized,
+        order: Math.max(-1, ...fields.map((candidate) => candidate.order)) + 1,
+      };
+      saveAndNotify([...fields, field]);
+      return cloneField(field);
+    },
+
+    async updateField(key: string, input: CustomFieldUpdate): Promise<CustomFieldDefinition> {
+      const fields = store.load();
+      const index = fields.findIndex((field) => field.key === key);
+      if (index === -1) {
+        throw new NotFoundError(FIELD_NOT_FOUND_MESSAGE);
+      }
+
+      const current = fields[index]!;
+      const updated = {
+        ...normalizeCustomFieldInput({ ...current, ...input }),
+        key,
+        order: current.order,
+      };
+      assertValidCustomFieldInput(updated);
+
+      fields[index] = updated;
+      saveAndNotify(fields);
+      return cloneField(updated);
+    },
+
+    async deleteField(key: string): Promise<void> {
+      const fields = store.load();
+      if (!fields.some((field) => field.key === key)) return;
+
+      saveAndNotify(fields.filter((field) => field.key !== key));
+    },
+
+    async reorderFields(keys: string[]): Promise<void> {
+      const fields = store.load().map((field) => {
+        const position = keys.indexOf(field.key);
+        return position === -1 ? field : { ...field, order: position };
+      });
+      saveAndNotify(fields);
+    },
+
+    subscribeToFields(onChange) {
+      listeners.add(onChange);
+
+      // Deliver the current state asynchronously, like the user subscription
+      queueMicrotask(() => {
+        if (listeners.has(onChange)) onChange(loadSorted());
+      });
+
+      return () => {
+        listeners.delete(onChange);
+      };
+    },
+  };
+};
+
+export const createLocalStorageCustomFieldRepository = (
+  key = LOCAL_STORAGE_KEY
+): CustomFieldRepository => {
+  return createLocalCustomFieldRepository(createLocalStorageCustomFieldStore(key));
+};
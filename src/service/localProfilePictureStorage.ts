@@ -0,0 +1,24 @@
+import type { ProfilePictureStorage } from './profilePictureStorage';
+
+const readAsDataUrl = (image: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read image'));
+    reader.readAsDataURL(image);
+  });
+};
+
+/**
+ * Creates a profile picture storage for the memory and localStorage backends
+ *
+ * Pictures are inlined as data URLs, so they live and die with the user
+ * records themselves and there is nothing to clean up.
+ */
+export const createLocalProfilePictureStorage = (): ProfilePictureStorage => ({
+  async uploadProfilePicture(image: Blob): Promise<string> {
+    return readAsDataUrl(image);
+  },
+
+  async deleteProfilePicture(): Promise<void> {},
+});
@@ -0,0 +1,189 @@
+import { sortSavedViews } from '@/models/savedView';
+import type { SavedView, SavedViewInput, SavedViewUpdate } from '@/models/savedView';
+import { getCurrentActor } from './actor';
+import { NotFoundError, PermissionDeniedError } from './errors';
+import { generateId } from './memory';
+import { assertValidSavedViewInput } from './validation';
+import type { SavedViewRepository } from './savedViewRepository';
+
+/**
+ * Everything the local saved view repository keeps, for every account
+ */
+export interface SavedViewSnapshot {
+  views: SavedView[];
+  /** Default view id by account id */
+  defaults: Record<string, string>;
+}
+
+/**
+ * Storage adapter for the local saved view repository, mirroring `UserStore`
+ */
+export interface SavedViewStore {
+  load(): SavedViewSnapshot;
+  save(snapshot: SavedViewSnapshot): void;
+}
+
+const LOCAL_STORAGE_KEY = 'g2g-assessment:savedViews';
+
+const VIEW_NOT_FOUND_MESSAGE = 'View not found';
+const SIGN_IN_MESSAGE = 'Sign in to use saved views';
+const NOT_OWNER_MESSAGE = 'Only the owner of a view can change it';
+
+const emptySnapshot = (): SavedViewSnapshot => ({ views: [], defaults: {} });
+
+const cloneSnapshot = (snapshot: SavedViewSnapshot): SavedViewSnapshot => ({
+  views: snapshot.views.map((view) => ({ ...view })),
+  defaults: { ...snapshot.defaults },
+});
+
+export const createVolatileSavedViewStore = (): SavedViewStore => {
+  let snapshot = emptySnapshot();
+  return {
+    load: () => cloneSnapshot(snapshot),
+    save: (next) => {
+      snapshot = cloneSnapshot(next);
+    },
+  };
+};
+
+/**
+ * localStorage-backed store; corrupt or missing data is treated as no views
+ */
+export const createLocalStorageSavedViewStore = (key = LOCAL_STORAGE_KEY): SavedViewStore => ({
+  load: () => {
+    try {
+      const raw = window.localStorage.getItem(key);
+      return raw ? cloneSnapshot({ ...emptySnapshot(), ...JSON.parse(raw) }) : emptySnapshot();
+    } catch (error) {
+      console.error(`Error reading ${key} from localStorage:`, error);
+      return emptySnapshot();
+    }
+  },
+  save: (snapshot) => {
+    window.localStorage.setItem(key, JSON.stringify(snapshot));
+  },
+});
+
+const requireActor = () => {
+  const actor = getCurrentActor();
+  if (!actor) {
+    throw new PermissionDeniedError(SIGN_IN_MESSAGE);
+  }
+  return actor;
+};
+
+/**
+ * Saved view repository for the memory and localStorage backends
+ *
+ * The demo accounts share one store, so sharing works between them the same
+ * way it does between Firebase accounts.
+ */
+export const createLocalSavedViewRepository = (
+  store: SavedViewStore = createVolatileSavedViewStore()
+): SavedViewRepository => {
+  const listeners = new Set<(views: SavedView[]) => void>();
+
+  const loadVisible = () => {
+    const actor = getCurrentActor();
+    return sortSavedViews(
+      store
+        .load()
+        .views.filter((view) => view.visibility === 'shared' || view.ownerId === actor?.id)
+    );
+  };
+
+  const saveAndNotify = (snapshot: SavedViewSnapshot) => {
+    store.save(snapshot);
+    const visible = loadVisible();
+    listeners.forEach((onChange) => onChange(visible));
+  };
+
+  return {
+    async createView(input: SavedViewInput): Promise<SavedView> {
+      const actor = requireActor();
+      const normalized = { ...input, name: input.name.trim() };
+      assertValidSavedViewInput(normalized);
+
+      const snapshot = store.load();
+      const view: SavedView = {
+        ...normalized,
+        id: generateId(),
+        ownerId: actor.id,
+        ownerName: actor.name,
+      };
+      saveAndNotify({ ...snapshot, views: [...snapshot.views, view] });
+      return { ...view };
+    },
+
+    async updateView(id: string, input: SavedViewUpdate): Promise<SavedView> {
+      const actor = requireActor();
+      const snapshot = store.load();
+      const index = snapshot.views.findIndex((view) => view.id === id);
+      if (index === -1) {
+        throw new NotFoundError(VIEW_NOT_FOUND_MESSAGE);
+      }
+
+      const current = snapshot.views[index]!;
+      if (current.ownerId !== actor.id) {
+        throw new PermissionDeniedError(NOT_OWNER_MESSAGE);
+      }
+
+      const updated = { ...current, ...input, name: (input.name ?? current.name).trim() };
+      assertValidSavedViewInput(updated);
+
+      snapshot.views[index] = updated;
+      saveAndNotify(snapshot);
+      return { ...updated };
+    },
+
+    async deleteView(id: string): Promise<void> {
+      const actor = requireActor();
+      const snapshot = store.load();
+      const view = snapshot.views.find((candidate) => candidate.id === id);
+      if (!view) return;
+      if (view.ownerId !== actor.id) {
+        throw new PermissionDeniedError(NOT_OWNER_MESSAGE);
+      }
+
+      saveAndNotify({
+        ...snapshot,
+        views: snapshot.views.filter((candidate) => candidate !== view),
+      });
+    },
+
+    async getDefaultViewId(): Promise<string | null> {
+      const actor = requireActor();
+      return store.load().defaults[actor.id] ?? null;
+    },
+
+    async setDefaultViewId(id: string | null): Promise<void> {
+      const actor = requireActor();
+      const snapshot = store.load();
+      if (id) {
+        snapshot.defaults[actor.id] = id;
+      } else {
+        delete snapshot.defaults[actor.id];
+      }
+      store.save(snapshot);
+    },
+
+    subscribeToViews(onChange) {
+      listeners.add(onChange);
+
+      // Deliver the current state asynchronously, like the user subscription
+      queueMicrotask(() => {
+        if (listeners.has(onChange)) onChange(loadVisible());
+      });
+
+      return () => {
+        listeners.delete(onChange);
+      };
+    },
+  };
+};
+
+export const createLocalStorageSavedViewRepository = (
+  key = LOCAL_STORAGE_KEY
+): SavedViewRepository => {
+  return createLocalSavedViewRepository(createLocalStorageSavedViewStore(key));
+};
@@ -0,0 +1,459 @@
+import { mergeUserUpdate, normalizeEmail } from '@/models/user';
+import type { User, CreateUserInput, UpdateUserInput } from '@/models/user';
+import { HISTORY_DATE_FIELDS, diffUserFields } from '@/models/userHistory';
+import type { UserHistoryAction, UserHistoryEntry } from '@/models/userHistory';
+import { getCurrentActor } from './actor';
+import { BULK_EMAIL_MESSAGE, DEFAULT_USER_ORDERING } from './userRepository';
+import { DuplicateEmailError, NotFoundError, toUserServiceError } from './errors';
+import { assertValidUserInput } from './validation';
+import type {
+  BulkWriteResult,
+  UserChange,
+  UserOrdering,
+  UserPageCursor,
+  UserRepository,
+  UserSubscriptionQuery,
+} from './userRepository';
+
+/**
+ * Storage adapter for the in-memory repository
+ *
+ * Lets the same repository logic run purely in memory or be mirrored to a
+ * persistent store such as localStorage.
+ */
+export interface UserStore {
+  load(): User[];
+  save(users: User[]): void;
+  loadHistory(): UserHistoryEntry[];
+  saveHistory(entries: UserHistoryEntry[]): void;
+}
+
+const LOCAL_STORAGE_KEY = 'g2g-assessment:users';
+
+const cloneUser = (user: User): User => ({
+  ...user,
+  dateOfBirth: new Date(user.dateOfBirth),
+  createdAt: new Date(user.createdAt),
+  updatedAt: new Date(user.updatedAt),
+  deletedAt: user.deletedAt ? new Date(user.deletedAt) : null,
+  customFields: { ...user.customFields },
+});
+
+const cloneHistoryEntry = (entry: UserHistoryEntry): UserHistoryEntry => {
+  const reviveValue = (field: string, value: unknown) =>
+    value !== null && (HISTORY_DATE_FIELDS as string[]).includes(field)
+      ? new Date(value as string | Date)
+      : value;
+
+  return {
+    ...entry,
+    actor: entry.actor && { ...entry.actor },
+    timestamp: new Date(entry.timestamp),
+    changes: entry.changes.map((change) => ({
+      ...change,
+      before: reviveValue(change.field, change.before),
+      after: reviveValue(change.field, change.after),
+    })) as UserHistoryEntry['changes'],
+  };
+};
+
+const isActive = (user: User): boolean => !user.deletedAt;
+
+const removeUndefinedProperties = <T extends object>(obj: T): Partial<T> => {
+  return Object.fromEntries(
+    Object.entries(obj).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+};
+
+const compareValues = (a: unknown, b: unknown): number => {
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() - b.getTime();
+  }
+  return String(a ?? '').localeCompare(String(b ?? ''));
+};
+
+/**
+ * Builds a comparator for the given ordering, breaking ties by ID so the
+ * order is total and page boundaries are stable, as in Firestore
+ */
+const createComparator = (ordering: Partial<UserOrdering> = {}) => {
+  const { sortBy, sortOrder } = { ...DEFAULT_USER_ORDERING, ...ordering };
+  const direction = sortOrder === 'asc' ? 1 : -1;
+
+  return (a: User, b: User): number =>
+    direction * compareValues(a[sortBy], b[sortBy]) || compareValues(a.id, b.id);
+};
+
+const sortUsers = (users: User[], ordering?: Partial<UserOrdering>): User[] => {
+  return [...users].sort(createComparator(ordering));
+};
+
+/**
+ * Computes the changes turning one ordered result into another, mirroring
+ * Firestore's `docChanges()`
+ */
+const diffResults = (previous: User[], next: User[]): UserChange[] => {
+  const nextIds = new Set(next.map((user) => user.id));
+  const previousById = new Map(previous.map((user, index) => [user.id, { user, index }]));
+
+  const removed: UserChange[] = previous
+    .filter((user) => !nextIds.has(user.id))
+    .map((user) => ({ type: 'removed', id: user.id! }));
+
+  const upserted = next.flatMap((user, index): UserChange[] => {
+    const before = previousById.get(user.id);
+    if (!before) {
+      return [{ type: 'added', user, index }];
+    }
+    if (before.index !== index || before.user.updatedAt.getTime() !== user.updatedAt.getTime()) {
+      return [{ type: 'modified', user, index }];
+    }
+    return [];
+  });
+
+  return [...removed, ...upserted];
+};
+
+export const generateId = (): string => {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+};
+
+export const createVolatileUserStore = (initialUsers: User[] = []): UserStore => {
+  let snapshot = initialUsers.map(cloneUser);
+  let history: UserHistoryEntry[] = [];
+  return {
+    load: () => snapshot.map(cloneUser),
+    save: (users) => {
+      snapshot = users.map(cloneUser);
+    },
+    loadHistory: () => history.map(cloneHistoryEntry),
+    saveHistory: (entries) => {
+      history = entries.map(cloneHistoryEntry);
+    },
+  };
+};
+
+const readLocalStorage = <T>(key: string, revive: (item: T) => T): T[] => {
+  try {
+    const raw = window.localStorage.getItem(key);
+    if (!raw) return [];
+
+    // Dates were serialized as ISO strings, the reviver restores them
+    const parsed = JSON.parse(raw) as T[];
+    return parsed.map(revive);
+  } catch (error) {
+    console.error(`Error reading ${key} from localStorage:`, error);
+    return [];
+  }
+};
+
+/**
+ * localStorage-backed store
+ *
+ * Users and their history are kept under separate keys. Dates are
+ * serialized as ISO strings and revived on load. Corrupt or missing entries
+ * are treated as an empty collection.
+ */
+export const createLocalStorageUserStore = (key = LOCAL_STORAGE_KEY): UserStore => {
+  const historyKey = `${key}:history`;
+
+  return {
+    load: () => readLocalStorage(key, cloneUser),
+    save: (users) => {
+      window.localStorage.setItem(key, JSON.stringify(users));
+    },
+    loadHistory: () => readLocalStorage(historyKey, cloneHistoryEntry),
+    saveHistory: (entries) => {
+      window.localStorage.setItem(historyKey, JSON.stringify(entries));
+    },
+  };
+};
+
+/**
+ * In-memory User Repository
+ *
+ * Mirrors the behaviour of the Firestore repository (ordering, audit
+ * timestamps, partial updates, not-found handling) without any network
+ * access, for offline demos and local development. Every method works on a
+ * fresh copy so callers cannot mutate stored records by reference.
+ */
+export const createMemoryUserRepository = (
+  store: UserStore = createVolatileUserStore()
+): UserRepository => {
+  const findIndex = (users: User[], id: string) => users.findIndex((user) => user.id === id);
+  const listeners = new Map<
+    (changes: UserChange[], cursor: UserPageCursor | null) => void,
+    { subscriptionQuery: UserSubscriptionQuery; current: User[] }
+  >();
+
+  const loadActive = () => store.load().filter(isActive);
+
+  // Trashed users are included so they can always be restored
+  const findUserByEmail = (users: User[], email: string, excludeUserId?: string) => {
+    const normalized = normalizeEmail(email);
+    return users.find(
+      (user) => user.id !== excludeUserId && normalizeEmail(user.email) === normalized
+    );
+  };
+
+  const queryResult = ({ limit, startAt, ...ordering }: UserSubscriptionQuery): User[] => {
+    const compare = createComparator(ordering);
+    let ordered = sortUsers(loadActive(), ordering);
+    // Compared by value like the page cursor, so it survives that user's deletion
+    if (startAt) {
+      ordered = ordered.filter((user) => compare(user, startAt as User) >= 0);
+    }
+    return limit === undefined ? ordered : ordered.slice(0, limit);
+  };
+
+  const resultCursor = (result: User[]) => result[result.length - 1] ?? null;
+
+  /**
+   * Re-evaluates every subscribed query and notifies listeners whose
+   * result changed
+   */
+  const notify = () => {
+    listeners.forEach((listener, onChange) => {
+      const next = queryResult(listener.subscriptionQuery);
+      const changes = diffResults(listener.current, next);
+      listener.current = next;
+
+      if (changes.length > 0) {
+        onChange(changes, resultCursor(next));
+      }
+    });
+  };
+
+  /**
+   * Appends one history entry per write, skipping writes that did not
+   * change any tracked field
+   */
+  const recordHistory = (
+    action: UserHistoryAction,
+    writes: { before: Partial<User>; after: User }[]
+  ) => {
+    const timestamp = new Date();
+    const actor = getCurrentActor();
+
+    const entries = writes.flatMap(({ before, after }): UserHistoryEntry[] => {
+      const changes = diffUserFields(before, after);
+      return changes.length > 0
+        ? [{ id: generateId(), userId: after.id!, action, changes, timestamp, actor }]
+        : [];
+    });
+
+    if (entries.length > 0) {
+      store.saveHistory([...store.loadHistory(), ...entries]);
+    }
+  };
+
+  /**
+   * Applies a change to each of the given users in one save, reporting
+   * unknown IDs as failed
+   */
+  const patchUsers = (
+    ids: string[],
+    action: UserHistoryAction,
+    patch: (user: User) => User
+  ): BulkWriteResult => {
+    const users = store.load();
+    const result: BulkWriteResult = { succeeded: [], failed: [] };
+    const writes: { before: User; after: User }[] = [];
+
+    for (const id of ids) {
+      const index = findIndex(users, id);
+      if (index === -1) {
+        result.failed.push({ id, message: 'User not found' });
+        continue;
+      }
+
+      const before = users[index]!;
+      users[index] = patch(before);
+      writes.push({ before, after: users[index]! });
+      result.succeeded.push(id);
+    }
+
+    if (result.succeeded.length > 0) {
+      store.save(users);
+      recordHistory(action, writes);
+      notify();
+    }
+    return result;
+  };
+
+  return {
+    async createUser(userInput: CreateUserInput): Promise<User> {
+      assertValidUserInput(userInput);
+
+      const users = store.load();
+      const now = new Date();
+
+      if (findUserByEmail(users, userInput.email)) {
+        throw new DuplicateEmailError(userInput.email);
+      }
+
+      const newUser: User = {
+        ...(removeUndefinedProperties(userInput) as CreateUserInput),
+        id: generateId(),
+        createdAt: now,
+        updatedAt: now,
+        deletedAt: null,
+      };
+
+      store.save([...users, newUser]);
+      recordHistory('create', [{ before: {}, after: newUser }]);
+      notify();
+      return cloneUser(newUser);
+    },
+
+    async getUsers(): Promise<User[]> {
+      return sortUsers(loadActive());
+    },
+
+    async getUsersPage({ pageSize, cursor, ...ordering }) {
+      const compare = createComparator(ordering);
+      const ordered = sortUsers(loadActive(), ordering);
+
+      // The cursor is the last user of the previous page; like Firestore's
+      // startAfter it is compared by value, so it survives that user's deletion
+      const start = cursor ? ordered.findIndex((user) => compare(user, cursor as User) > 0) : 0;
+      const remaining = start === -1 ? [] : ordered.slice(start);
+      const users = remaining.slice(0, pageSize);
+      const hasMore = remaining.length > pageSize;
+
+      return {
+        users,
+        cursor: hasMore ? (users[users.length - 1] ?? null) : null,
+        hasMore,
+      };
+    },
+
+    async getUserById(id: string): Promise<User | null> {
+      const user = store.load().find((candidate) => candidate.id === id);
+      return user ?? null;
+    },
+
+    async updateUser(id: string, userInput: UpdateUserInput): Promise<User> {
+      assertValidUserInput(userInput, { partial: true });
+
+      const users = store.load();
+      const index = findIndex(users, id);
+      if (index === -1) {
+        throw new NotFoundError();
+      }
+      if (userInput.email !== undefined && findUserByEmail(users, userInput.email, id)) {
+        throw new DuplicateEmailError(userInput.email);
+      }
+
+      const updatedUser: User = {
+        ...mergeUserUpdate(users[index]!, removeUndefinedProperties(userInput)),
+        updatedAt: new Date(),
+      };
+
+      recordHistory('update', [{ before: users[index]!, after: updatedUser }]);
+      users[index] = updatedUser;
+      store.save(users);
+      notify();
+      return cloneUser(updatedUser);
+    },
+
+    async isEmailAvailable(email: string, excludeUserId?: string): Promise<boolean> {
+      return !findUserByEmail(store.load(), email, excludeUserId);
+    },
+
+    async deleteUser(id: string): Promise<void> {
+      const result = patchUsers([id], 'delete', (user) => ({ ...user, deletedAt: new Date() }));
+      if (result.failed.length > 0) {
+        throw new NotFoundError();
+      }
+    },
+
+    async restoreUser(id: string): Promise<User> {
+      const result = patchUsers([id], 'restore', (user) => ({ ...user, deletedAt: null }));
+      if (result.failed.length > 0) {
+        throw new NotFoundError();
+      }
+
+      return cloneUser(store.load().find((user) => user.id === id)!);
+    },
+
+    async purgeUser(id: string): Promise<void> {
+      const users = store.load();
+      if (findIndex(users, id) === -1) return;
+
+      store.save(users.filter((user) => user.id !== id));
+      store.saveHistory(store.loadHistory().filter((entry) => entry.userId !== id));
+      notify();
+    },
+
+    async getDeletedUsers(): Promise<User[]> {
+      return store
+        .load()
+        .filter((user) => !isActive(user))
+        .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime());
+    },
+
+    async getUserHistory(userId: string): Promise<UserHistoryEntry[]> {
+      // Entries are appended in order, so reversing yields newest first
+      return store
+        .loadHistory()
+        .filter((entry) => entry.userId === userId)
+        .reverse();
+    },
+
+    async bulkUpdateUsers(ids: string[], userInput: UpdateUserInput): Promise<BulkWriteResult> {
+      // Every user would end up with the same email
+      if (userInput.email !== undefined) {
+        return { succeeded: [], failed: ids.map((id) => ({ id, message: BULK_EMAIL_MESSAGE })) };
+      }
+
+      try {
+        assertValidUserInput(userInput, { partial: true });
+      } catch (error) {
+        const { message } = toUserServiceError(error);
+        return { succeeded: [], failed: ids.map((id) => ({ id, message })) };
+      }
+
+      const updates = removeUndefinedProperties(userInput);
+      const now = new Date();
+      return patchUsers(ids, 'update', (user) => ({
+        ...mergeUserUpdate(user, updates),
+        updatedAt: now,
+      }));
+    },
+
+    async bulkDeleteUsers(ids: string[]): Promise<BulkWriteResult> {
+      const now = new Date();
+      return patchUsers(ids, 'delete', (user) => ({ ...user, deletedAt: now }));
+    },
+
+    async bulkRestoreUsers(ids: string[]): Promise<BulkWriteResult> {
+      return patchUsers(ids, 'restore', (user) => ({ ...user, deletedAt: null }));
+    },
+
+    subscribeToUsers(subscriptionQuery, onChange) {
+      const listener = { subscriptionQuery, current: [] as User[] };
+      listeners.set(onChange, listener);
+
+      // Deliver the current state asynchronously, as Firestore does
+      queueMicrotask(() => {
+        if (listeners.get(onChange) !== listener) return;
+        listener.current = queryResult(subscriptionQuery);
+        onChange(
+          listener.current.map((user, index) => ({ type: 'added', user, index })),
+          resultCursor(listener.current)
+        );
+      });
+
+      return () => {
+        listeners.delete(onChange);
+      };
+    },
+  };
+};
+
+export const createLocalStorageUserRepository = (key = LOCAL_STORAGE_KEY): UserRepository => {
+  return createMemoryUserRepository(createLocalStorageUserStore(key));
+};
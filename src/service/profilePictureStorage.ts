@@ -0,0 +1,21 @@
+/**
+ * Profile Picture Storage Contract
+ *
+ * Stores uploaded profile pictures and hands back the URL saved on the user.
+ * Keeping it separate from `UserRepository` lets pictures be uploaded before
+ * the user they belong to is written.
+ */
+export interface ProfilePictureStorage {
+  /**
+   * Stores an image and resolves with a URL that can be used as `profilePicture`
+   */
+  uploadProfilePicture(image: Blob): Promise<string>;
+
+  /**
+   * Deletes a previously uploaded picture
+   *
+   * URLs that were not produced by this storage, such as pictures hosted
+   * elsewhere, and pictures that are already gone are ignored.
+   */
+  deleteProfilePicture(url: string): Promise<void>;
+}
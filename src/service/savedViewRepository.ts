@@ -0,0 +1,36 @@
+import type { SavedView, SavedViewInput, SavedViewUpdate } from '@/models/savedView';
+import type { Unsubscribe } from './userRepository';
+
+/**
+ * Saved View Repository Contract
+ *
+ * Stores named list views for the signed-in account (see `setCurrentActor`):
+ * its own private views and the views anyone shared with the team. New
+ * views are owned by the current account, and only their owner can update
+ * or delete them; anyone else gets a `PermissionDeniedError`.
+ *
+ * Each account can also pick one view as its default. The choice is
+ * personal, so it is stored apart from the views and never changes what
+ * other accounts see. Views are returned ordered by name.
+ *
+ * Methods reject with a `UserServiceError` subclass (see `./errors`).
+ */
+export interface SavedViewRepository {
+  createView(input: SavedViewInput): Promise<SavedView>;
+  updateView(id: string, input: SavedViewUpdate): Promise<SavedView>;
+  deleteView(id: string): Promise<void>;
+
+  /** Id of the current account's default view, which may since have been deleted */
+  getDefaultViewId(): Promise<string | null>;
+  setDefaultViewId(id: string | null): Promise<void>;
+
+  /**
+   * Listens for changes to the views the current account can see
+   *
+   * Every invocation delivers the complete ordered list.
+   */
+  subscribeToViews(
+    onChange: (views: SavedView[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe;
+}
@@ -0,0 +1,181 @@
+import type { User, CreateUserInput, UpdateUserInput } from '@/models/user';
+import type { UserHistoryEntry } from '@/models/userHistory';
+
+/**
+ * Fields that can be ordered by the backend
+ *
+ * `profilePicture` is excluded because Firestore drops documents missing the
+ * ordered field from the result, and the field is optional. Each field needs
+ * a composite index with `deletedAt` in firestore.indexes.json.
+ */
+export const SERVER_SORT_FIELDS = [
+  'name',
+  'email',
+  'dateOfBirth',
+  'gender',
+  'createdAt',
+  'updatedAt',
+] as const;
+
+export type UserSortField = (typeof SERVER_SORT_FIELDS)[number];
+export type SortOrder = 'asc' | 'desc';
+
+export interface UserOrdering {
+  sortBy: UserSortField;
+  sortOrder: SortOrder;
+}
+
+export const DEFAULT_USER_ORDERING: UserOrdering = { sortBy: 'createdAt', sortOrder: 'desc' };
+
+export const isServerSortField = (field: string): field is UserSortField => {
+  return (SERVER_SORT_FIELDS as readonly string[]).includes(field);
+};
+
+/**
+ * Position after which the next page starts
+ *
+ * Opaque to callers: each backend stores whatever it needs (a Firestore
+ * document snapshot, a user ID) and only accepts cursors it produced itself.
+ */
+export type UserPageCursor = unknown;
+
+export interface UserPageQuery extends Partial<UserOrdering> {
+  pageSize: number;
+  cursor?: UserPageCursor | null;
+}
+
+export interface UserPage {
+  users: User[];
+  /** Cursor to pass for the following page, null when this is the last one */
+  cursor: UserPageCursor | null;
+  hasMore: boolean;
+}
+
+export interface UserSubscriptionQuery extends Partial<UserOrdering> {
+  /** Maximum number of users to keep in the live result, unbounded if omitted */
+  limit?: number;
+  /**
+   * Starts the result at this position, inclusive
+   *
+   * Takes the cursor a subscription reports, so the next page can be
+   * listened to from the last user of the previous one.
+   */
+  startAt?: UserPageCursor | null;
+}
+
+/**
+ * Incremental change to the users collection
+ *
+ * `index` is the position of the user in the ordered result after the
+ * change has been applied. `pendingSync` is set while the user carries
+ * local writes that have not reached the server yet; backends without an
+ * offline queue never set it. A `modified` change is also delivered when
+ * only `pendingSync` changes.
+ */
+export type UserChange =
+  | { type: 'added'; user: User; index: number; pendingSync?: boolean }
+  | { type: 'modified'; user: User; index: number; pendingSync?: boolean }
+  | { type: 'removed'; id: string };
+
+export type Unsubscribe = () => void;
+
+/**
+ * Outcome of a bulk write, listing which users were written and which
+ * failed with what message
+ */
+export interface BulkWriteResult {
+  succeeded: string[];
+  failed: { id: string; message: string }[];
+}
+
+/** Failure reported for every user when a bulk update tries to set an email */
+export const BULK_EMAIL_MESSAGE = 'Emails must be unique and cannot be changed in bulk';
+
+/**
+ * User Repository Contract
+ *
+ * Describes the persistence operations the application needs for User entities,
+ * independent of the storage technology. Implementations receive and return
+ * domain objects only, so callers never see Firestore documents or serialized
+ * localStorage records.
+ *
+ * Deleting is a soft delete: users are moved to the trash by setting
+ * `deletedAt` and are left out of every query except `getDeletedUsers`
+ * until they are restored or purged.
+ *
+ * Every create, update, delete and restore also records a history entry
+ * with the changed fields and the current actor (see `setCurrentActor`).
+ *
+ * Emails are unique: creates and updates that would duplicate one reject
+ * with `DuplicateEmailError`, checked atomically with the write.
+ *
+ * Methods reject with a `UserServiceError` subclass (see `./errors`), never
+ * with backend-specific errors.
+ */
+export interface UserRepository {
+  createUser(userInput: CreateUserInput): Promise<User>;
+  getUsers(): Promise<User[]>;
+
+  /**
+   * Retrieves one page of users ordered by the given field
+   *
+   * Pass the `cursor` of the previous page to continue after it.
+   */
+  getUsersPage(pageQuery: UserPageQuery): Promise<UserPage>;
+  getUserById(id: string): Promise<User | null>;
+  updateUser(id: string, userInput: UpdateUserInput): Promise<User>;
+
+  /**
+   * Tells whether an email is free to use, ignoring the user with
+   * `excludeUserId` so a user can keep its own email
+   *
+   * Only a hint for validation while typing; the write itself decides.
+   */
+  isEmailAvailable(email: string, excludeUserId?: string): Promise<boolean>;
+
+  /** Moves a user to the trash */
+  deleteUser(id: string): Promise<void>;
+
+  /** Takes a user out of the trash */
+  restoreUser(id: string): Promise<User>;
+
+  /** Permanently removes a user, whether trashed or not, along with its history */
+  purgeUser(id: string): Promise<void>;
+
+  /** Retrieves the users in the trash, most recently deleted first */
+  getDeletedUsers(): Promise<User[]>;
+
+  /** Retrieves the recorded changes of a user, newest first */
+  getUserHistory(userId: string): Promise<UserHistoryEntry[]>;
+
+  /**
+   * Applies the same partial update to several users
+   *
+   * Never rejects for individual users; failures are reported per ID so
+   * callers can surface partial success. Emails cannot be changed in bulk.
+   */
+  bulkUpdateUsers(ids: string[], userInput: UpdateUserInput): Promise<BulkWriteResult>;
+
+  /**
+   * Moves several users to the trash, reporting failures per ID like
+   * `bulkUpdateUsers`
+   */
+  bulkDeleteUsers(ids: string[]): Promise<BulkWriteResult>;
+  bulkRestoreUsers(ids: string[]): Promise<BulkWriteResult>;
+
+  /**
+   * Listens for changes to the users collection
+   *
+   * The first callback invocation delivers every user in the (optionally
+   * limited) ordered result as an `added` change; later invocations only
+   * carry what changed. Each invocation also reports the cursor of the last
+   * user in the result, null while it is empty.
+   */
+  subscribeToUsers(
+    subscriptionQuery: UserSubscriptionQuery,
+    onChange: (changes: UserChange[], cursor: UserPageCursor | null) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe;
+}
+
+export type UserRepositoryBackend = 'firestore' | 'memory' | 'localStorage';
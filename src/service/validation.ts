@@ -0,0 +1,87 @@
+import { userSchema } from '@/models/user';
+import type { CreateUserInput, UpdateUserInput } from '@/models/user';
+import { customFieldDefinitionSchema } from '@/models/customField';
+import type { CustomFieldInput } from '@/models/customField';
+import { savedViewSchema } from '@/models/savedView';
+import type { SavedViewInput } from '@/models/savedView';
+import { ValidationError } from './errors';
+
+const userInputSchema = userSchema.pick({
+  name: true,
+  email: true,
+  dateOfBirth: true,
+  gender: true,
+  profilePicture: true,
+  customFields: true,
+});
+
+type IssuePath = (string | number)[];
+
+/**
+ * Keeps the first message per field, naming fields by the first path segment
+ * unless `getField` says otherwise
+ */
+const toFieldErrors = (
+  issues: { path: IssuePath; message: string }[],
+  getField = (path: IssuePath) => String(path[0] ?? '')
+) => {
+  const fieldErrors: Record<string, string> = {};
+  for (const issue of issues) {
+    fieldErrors[getField(issue.path)] ??= issue.message;
+  }
+  return fieldErrors;
+};
+
+/**
+ * Validates user input against the domain schema before it is written
+ *
+ * Forms validate too, but imports, bulk edits and other callers go straight
+ * to the service. Pass `partial` for updates. Custom field values are only
+ * checked for their shape here; their definitions are enforced by the form
+ * and the importer.
+ *
+ * @throws ValidationError listing the message of each invalid field
+ */
+export const assertValidUserInput = (
+  userInput: CreateUserInput | UpdateUserInput,
+  { partial = false } = {}
+) => {
+  const result = (partial ? userInputSchema.partial() : userInputSchema).safeParse(userInput);
+  if (result.success) return;
+
+  throw new ValidationError(toFieldErrors(result.error.issues));
+};
+
+/**
+ * Validates a custom field definition before it is written
+ *
+ * Updates must be passed merged into the current definition, so rules
+ * spanning several settings, like options being required for dropdowns,
+ * still hold.
+ *
+ * @throws ValidationError listing the message of each invalid setting
+ */
+export const assertValidCustomFieldInput = (input: CustomFieldInput) => {
+  const result = customFieldDefinitionSchema.safeParse(input);
+  if (result.success) return;
+
+  // Bounds are reported as `validation.min` and `validation.max`
+  throw new ValidationError(
+    toFieldErrors(result.error.issues, (path) =>
+      path[0] === 'validation' ? path.slice(0, 2).join('.') : String(path[0] ?? '')
+    )
+  );
+};
+
+/**
+ * Validates a saved view before it is written; updates must be passed
+ * merged into the current view
+ *
+ * @throws ValidationError listing the message of each invalid setting
+ */
+export const assertValidSavedViewInput = (input: SavedViewInput) => {
+  const result = savedViewSchema.safeParse(input);
+  if (result.success) return;
+
+  throw new ValidationError(toFieldErrors(result.error.issues));
+};